@@ -0,0 +1,149 @@
+/**
+ * 配置文件加载（Node.js / Deno）
+ * - TEMPMAILHUB_CONFIG：配置文件路径，不设置时依次查找当前目录下的
+ *   tempmailhub.config.json、tempmailhub.config.yaml、tempmailhub.config.yml
+ * - TEMPMAILHUB_CONFIG_WATCH：设为 false 时不监听文件变化
+ * 配置文件注册为 ConfigManager 的配置源，文件变化后经 schema 校验再通过 reloadConfig 生效
+ */
+
+import { getRuntimeKey } from 'hono/adapter';
+import type { ConfigOverrides, ConfigReloadResult } from '../types/index.js';
+import { configManager, defaultConfig } from './index.js';
+import { createConfigSchema } from './schema.js';
+import { validate } from '../utils/schema.js';
+import type { SchemaIssue } from '../utils/schema.js';
+import { getEnv } from '../utils/env.js';
+import type { EnvSource } from '../utils/env.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('config');
+
+const CONFIG_FILE_NAMES = ['tempmailhub.config.json', 'tempmailhub.config.yaml', 'tempmailhub.config.yml'];
+// 编辑器保存文件时可能连续触发多次事件，合并后再重新加载
+const WATCH_DEBOUNCE = 300;
+
+const configSchema = createConfigSchema(() => Object.keys(defaultConfig.channels));
+
+/**
+ * 配置文件格式或内容错误
+ */
+export class ConfigFileError extends Error {
+  constructor(message: string, public readonly issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'ConfigFileError';
+  }
+}
+
+/**
+ * 解析并校验配置文件内容
+ * @param path 文件路径，按扩展名选择 JSON 或 YAML
+ */
+export async function parseConfigFile(content: string, path: string): Promise<ConfigOverrides> {
+  let data: unknown;
+  try {
+    if (/\.ya?ml$/i.test(path)) {
+      const { parse } = await import('yaml');
+      data = parse(content);
+    } else {
+      data = JSON.parse(content);
+    }
+  } catch (error) {
+    throw new ConfigFileError(`Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // 空文件视为没有覆盖项
+  const { value, issues } = validate(configSchema, data ?? {});
+  if (!value) {
+    throw new ConfigFileError(
+      `Invalid config file ${path}:\n` + issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n'),
+      issues
+    );
+  }
+  return value;
+}
+
+/**
+ * 当前运行时是否有文件系统（Workers 等运行时不加载配置文件）
+ */
+export function supportsConfigFile(): boolean {
+  return ['node', 'deno', 'bun'].includes(getRuntimeKey());
+}
+
+/**
+ * 查找并加载配置文件，成功时返回文件路径
+ * 文件不存在或当前运行时不支持文件系统时跳过；内容无效时打印错误并忽略该文件
+ * @param reload 应用配置的方法（通常为 providerManager.reloadConfig，以便同时更新提供者）
+ * @param source 读取 TEMPMAILHUB_CONFIG 等环境变量的来源，不传时读取 process.env
+ */
+export async function loadConfigFile(
+  reload: () => Promise<ConfigReloadResult>,
+  source: EnvSource = { env: (globalThis as any).process?.env }
+): Promise<string | undefined> {
+  if (!supportsConfigFile()) {
+    return undefined;
+  }
+  const fs = await importFs().catch(() => undefined);
+  if (!fs) {
+    return undefined;
+  }
+
+  const path = getEnv(source, 'TEMPMAILHUB_CONFIG') || CONFIG_FILE_NAMES.find(name => fs.existsSync(name));
+  if (!path) {
+    return undefined;
+  }
+  if (!fs.existsSync(path)) {
+    logger.warn('Config file not found', { path });
+    return undefined;
+  }
+
+  let current: ConfigOverrides;
+  try {
+    current = await parseConfigFile(await fs.promises.readFile(path, 'utf-8'), path);
+  } catch (error) {
+    logger.error('Failed to parse config file', { path, error: error instanceof Error ? error.message : error });
+    return undefined;
+  }
+
+  configManager.addConfigSource(`file:${path}`, () => current);
+  report(path, await reload());
+
+  if (getEnv(source, 'TEMPMAILHUB_CONFIG_WATCH')?.toLowerCase() !== 'false') {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const watcher = fs.watch(path, () => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        try {
+          current = await parseConfigFile(await fs.promises.readFile(path, 'utf-8'), path);
+          report(path, await reload());
+        } catch (error) {
+          // 新内容无效时继续使用上一次的配置
+          logger.error('Failed to parse config file', { path, error: error instanceof Error ? error.message : error });
+        }
+      }, WATCH_DEBOUNCE);
+    });
+    // 监听不应阻止进程退出
+    watcher.unref?.();
+  }
+
+  return path;
+}
+
+/**
+ * 输出配置变化
+ */
+function report(path: string, result: ConfigReloadResult): void {
+  if (!result.valid) {
+    logger.error('Config file rejected', { path, errors: result.errors });
+    return;
+  }
+
+  logger.info('Config file loaded', { path, changes: result.changes });
+}
+
+/**
+ * 动态加载 fs 模块，避免 Workers 打包时解析 node 内置模块（Deno 通过 Node 兼容层支持）
+ */
+function importFs(): Promise<typeof import('node:fs')> {
+  const specifier = 'node:fs';
+  return import(/* @vite-ignore */ specifier);
+}
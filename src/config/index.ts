@@ -1,4 +1,16 @@
-import type { Config, ChannelConfig } from '../types/index.js';
+import type {
+  Config,
+  ChannelConfig,
+  ConfigChange,
+  ConfigOverrides,
+  ConfigReloadResult,
+  ConfigValidationResult,
+  CorsPolicy
+} from '../types/index.js';
+import { isSelectionStrategy } from '../providers/selection.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('config');
 
 /**
  * 默认配置
@@ -71,8 +83,11 @@ export const defaultConfig: Config = {
     host: '0.0.0.0',
     cors: {
       origin: ['*'],
-      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      headers: ['Content-Type', 'Authorization', 'X-Requested-With']
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      headers: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'X-Request-ID'],
+      credentials: false,
+      csrf: false
     }
   },
   security: {
@@ -81,6 +96,19 @@ export const defaultConfig: Config = {
       requests: 100,
       window: 60
     }
+  },
+  routing: {
+    strategy: 'priority',
+    failover: {
+      enabled: true,
+      maxAttempts: 3
+    },
+    circuitBreaker: {
+      enabled: true,
+      failureThreshold: 5,
+      cooldown: 30,
+      rateLimitCooldown: 300
+    }
   }
 };
 
@@ -89,7 +117,7 @@ export const defaultConfig: Config = {
  */
 export class ConfigManager {
   private config: Config;
-  private readonly configSources: Map<string, () => Partial<Config>> = new Map();
+  private readonly configSources: Map<string, () => ConfigOverrides> = new Map();
 
   constructor(initialConfig: Config = defaultConfig) {
     this.config = { ...initialConfig };
@@ -121,48 +149,63 @@ export class ConfigManager {
 
   /**
    * 更新渠道配置
+   * 更新后的配置通过 validateConfig 校验才会生效
    */
-  updateChannelConfig(channelName: string, config: Partial<ChannelConfig[string]>) {
-    if (this.config.channels[channelName]) {
-      this.config.channels[channelName] = {
-        ...this.config.channels[channelName],
-        ...config
-      };
+  updateChannelConfig(channelName: string, config: Partial<ChannelConfig[string]>): ConfigValidationResult {
+    const current = this.config.channels[channelName];
+    if (!current) {
+      return { valid: false, errors: [`Unknown channel: ${channelName}`] };
+    }
+
+    // 复制后再修改，避免改动 defaultConfig 等共享对象
+    const next: Config = {
+      ...this.config,
+      channels: {
+        ...this.config.channels,
+        [channelName]: { ...current, ...config }
+      }
+    };
+
+    const result = this.validateConfig(next);
+    if (result.valid) {
+      this.config = next;
     }
+    return result;
   }
 
   /**
    * 启用渠道
    */
-  enableChannel(channelName: string) {
-    this.updateChannelConfig(channelName, { enabled: true });
+  enableChannel(channelName: string): ConfigValidationResult {
+    return this.updateChannelConfig(channelName, { enabled: true });
   }
 
   /**
    * 禁用渠道
    */
-  disableChannel(channelName: string) {
-    this.updateChannelConfig(channelName, { enabled: false });
+  disableChannel(channelName: string): ConfigValidationResult {
+    return this.updateChannelConfig(channelName, { enabled: false });
   }
 
   /**
    * 设置渠道优先级
    */
-  setChannelPriority(channelName: string, priority: number) {
-    this.updateChannelConfig(channelName, { priority });
+  setChannelPriority(channelName: string, priority: number): ConfigValidationResult {
+    return this.updateChannelConfig(channelName, { priority });
   }
 
   /**
    * 添加配置源
    */
-  addConfigSource(name: string, source: () => Partial<Config>) {
+  addConfigSource(name: string, source: () => ConfigOverrides) {
     this.configSources.set(name, source);
   }
 
   /**
    * 重新加载配置
+   * 按默认配置、各配置源、环境变量的顺序重新生成配置，运行时的修改会被丢弃；新配置校验失败时保留当前配置
    */
-  async reloadConfig() {
+  async reloadConfig(): Promise<ConfigReloadResult> {
     let newConfig = { ...defaultConfig };
 
     // 合并所有配置源
@@ -171,23 +214,46 @@ export class ConfigManager {
         const sourceConfig = source();
         newConfig = this.mergeConfig(newConfig, sourceConfig);
       } catch (error) {
-        console.warn(`Failed to load config from source ${name}:`, error);
+        logger.warn('Failed to load config source', { source: name, error });
       }
     }
 
+    // 环境变量优先级最高
+    newConfig = this.mergeConfig(newConfig, this.readEnvConfig());
+
+    const result = this.validateConfig(newConfig);
+    if (!result.valid) {
+      return { ...result, changes: [] };
+    }
+
+    const changes = diffConfig(this.config, newConfig);
     this.config = newConfig;
+    return { ...result, changes };
   }
 
   /**
-   * 从环境变量加载配置
+   * 从环境变量加载配置，校验失败时保留当前配置
    */
   loadFromEnv() {
+    const config = this.mergeConfig(this.config, this.readEnvConfig());
+    const result = this.validateConfig(config);
+    if (!result.valid) {
+      logger.error('Ignoring invalid environment configuration', { errors: result.errors });
+      return;
+    }
+    this.config = config;
+  }
+
+  /**
+   * 读取环境变量中的配置
+   */
+  private readEnvConfig(): ConfigOverrides {
     // 检查是否存在 process 对象（Node.js 环境）
     const env = typeof globalThis !== 'undefined' && 
                 (globalThis as any).process?.env || 
                 (typeof globalThis !== 'undefined' && (globalThis as any).process ? (globalThis as any).process.env : {});
     
-    const envConfig: Partial<Config> = {};
+    const envConfig: ConfigOverrides = {};
 
     // 加载服务器配置
     if (env.PORT) {
@@ -212,15 +278,44 @@ export class ConfigManager {
       };
     }
 
-    // 加载渠道启用状态
-    const channels: ChannelConfig = {};
+    // 加载渠道选择策略和故障转移配置，只覆盖设置了的字段（其余字段保留配置文件中的值）
+    const routing: NonNullable<ConfigOverrides['routing']> = {};
+    if (env.ROUTING_STRATEGY) {
+      if (isSelectionStrategy(env.ROUTING_STRATEGY)) {
+        routing.strategy = env.ROUTING_STRATEGY;
+      } else {
+        logger.warn('Ignoring unknown ROUTING_STRATEGY', { value: env.ROUTING_STRATEGY });
+      }
+    }
+    const failover: NonNullable<ConfigOverrides['routing']>['failover'] = {};
+    if (env.FAILOVER_ENABLED !== undefined) failover.enabled = env.FAILOVER_ENABLED.toLowerCase() === 'true';
+    if (env.FAILOVER_MAX_ATTEMPTS) failover.maxAttempts = parseInt(env.FAILOVER_MAX_ATTEMPTS, 10);
+    if (Object.keys(failover).length > 0) {
+      routing.failover = failover;
+    }
+    if (Object.keys(routing).length > 0) {
+      envConfig.routing = routing;
+    }
+
+    // 加载 CORS 配置
+    const cors: NonNullable<ConfigOverrides['server']>['cors'] = {};
+    if (env.CORS_ORIGINS) cors.origin = parseList(env.CORS_ORIGINS);
+    if (env.CORS_METHODS) cors.methods = parseList(env.CORS_METHODS).map(method => method.toUpperCase());
+    if (env.CORS_HEADERS) cors.headers = parseList(env.CORS_HEADERS);
+    if (env.CORS_EXPOSE_HEADERS) cors.exposeHeaders = parseList(env.CORS_EXPOSE_HEADERS);
+    if (env.CORS_CREDENTIALS !== undefined) cors.credentials = env.CORS_CREDENTIALS.toLowerCase() === 'true';
+    if (env.CORS_MAX_AGE) cors.maxAge = parseInt(env.CORS_MAX_AGE, 10);
+    if (env.CSRF_ENABLED !== undefined) cors.csrf = env.CSRF_ENABLED.toLowerCase() === 'true';
+    if (Object.keys(cors).length > 0) {
+      envConfig.server = { ...envConfig.server, cors };
+    }
+
+    // 加载渠道配置（CHANNEL_<NAME>_<FIELD>），只覆盖设置了的字段
+    const channels: NonNullable<ConfigOverrides['channels']> = {};
     for (const channelName of Object.keys(defaultConfig.channels)) {
-      const envKey = `CHANNEL_${channelName.toUpperCase()}_ENABLED`;
-      if (env[envKey] !== undefined) {
-        channels[channelName] = {
-          ...defaultConfig.channels[channelName],
-          enabled: env[envKey]?.toLowerCase() === 'true'
-        };
+      const channel = readChannelEnv(env, channelName);
+      if (Object.keys(channel).length > 0) {
+        channels[channelName] = channel;
       }
     }
 
@@ -228,31 +323,56 @@ export class ConfigManager {
       envConfig.channels = channels;
     }
 
-    this.config = this.mergeConfig(this.config, envConfig);
+    return envConfig;
   }
 
   /**
    * 深度合并配置
    */
-  private mergeConfig(target: Config, source: Partial<Config>): Config {
+  private mergeConfig(target: Config, source: ConfigOverrides): Config {
     const result = { ...target };
 
     if (source.channels) {
       result.channels = { ...result.channels };
       for (const [name, config] of Object.entries(source.channels)) {
+        const current = result.channels[name];
         result.channels[name] = {
-          ...result.channels[name],
-          ...config
+          ...current,
+          ...config,
+          rateLimit: config.rateLimit || current?.rateLimit
+            ? { ...current?.rateLimit, ...config.rateLimit } as ChannelConfig[string]['rateLimit']
+            : undefined
         };
       }
     }
 
     if (source.server) {
-      result.server = { ...result.server, ...source.server };
+      result.server = {
+        ...result.server,
+        ...source.server,
+        cors: source.server.cors || result.server.cors
+          ? { ...result.server.cors, ...source.server.cors } as Config['server']['cors']
+          : undefined
+      };
     }
 
     if (source.security) {
-      result.security = { ...result.security, ...source.security };
+      result.security = {
+        ...result.security,
+        ...source.security,
+        rateLimit: source.security.rateLimit || result.security.rateLimit
+          ? { ...result.security.rateLimit, ...source.security.rateLimit } as Config['security']['rateLimit']
+          : undefined
+      };
+    }
+
+    if (source.routing) {
+      result.routing = {
+        ...result.routing,
+        ...source.routing,
+        failover: { ...result.routing.failover, ...source.routing.failover },
+        circuitBreaker: { ...result.routing.circuitBreaker, ...source.routing.circuitBreaker }
+      };
     }
 
     return result;
@@ -261,26 +381,78 @@ export class ConfigManager {
   /**
    * 验证配置
    */
-  validateConfig(): { valid: boolean; errors: string[] } {
+  validateConfig(config: Config = this.config): ConfigValidationResult {
     const errors: string[] = [];
 
-    // 验证渠道配置
-    for (const [name, config] of Object.entries(this.config.channels)) {
-      if (config.priority < 1) {
+    // 验证渠道配置（运行时修改可能带入任意 JSON 值，需要检查类型）
+    for (const [name, channel] of Object.entries(config.channels)) {
+      if (typeof channel.enabled !== 'boolean') {
+        errors.push(`Channel ${name} enabled must be a boolean`);
+      }
+      if (!(typeof channel.priority === 'number' && channel.priority >= 1)) {
         errors.push(`Channel ${name} priority must be >= 1`);
       }
-      if (config.timeout !== undefined && config.timeout < 1000) {
+      if (channel.timeout !== undefined && !(typeof channel.timeout === 'number' && channel.timeout >= 1000)) {
         errors.push(`Channel ${name} timeout must be >= 1000ms`);
       }
-      if (config.retries !== undefined && config.retries < 0) {
-        errors.push(`Channel ${name} retries must be >= 0`);
+      if (channel.retries !== undefined && !(Number.isInteger(channel.retries) && channel.retries >= 0)) {
+        errors.push(`Channel ${name} retries must be an integer >= 0`);
+      }
+      if (channel.rateLimit !== undefined &&
+          !(typeof channel.rateLimit?.requests === 'number' && channel.rateLimit.requests > 0 &&
+            typeof channel.rateLimit?.window === 'number' && channel.rateLimit.window > 0)) {
+        errors.push(`Channel ${name} rateLimit requests and window must be > 0`);
       }
+      if (channel.apiKey !== undefined && typeof channel.apiKey !== 'string') {
+        errors.push(`Channel ${name} apiKey must be a string`);
+      }
+      if (channel.baseUrl !== undefined && !isHttpUrl(channel.baseUrl)) {
+        errors.push(`Channel ${name} baseUrl must be an http(s) URL`);
+      }
+      if (channel.domains !== undefined &&
+          !(Array.isArray(channel.domains) && channel.domains.every(domain => typeof domain === 'string' && domain.length > 0))) {
+        errors.push(`Channel ${name} domains must be a list of domain names`);
+      }
+    }
+
+    // 验证路由配置
+    if (!isSelectionStrategy(config.routing.strategy)) {
+      errors.push(`Unknown routing strategy: ${config.routing.strategy}`);
+    }
+    const { maxAttempts } = config.routing.failover;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      errors.push('Failover maxAttempts must be an integer >= 1');
+    }
+    const { failureThreshold, cooldown, rateLimitCooldown } = config.routing.circuitBreaker;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      errors.push('Circuit breaker failureThreshold must be an integer >= 1');
+    }
+    // NaN 与任何数比较都为 false，需要单独检查
+    if (![cooldown, rateLimitCooldown].every(value => Number.isFinite(value) && value > 0)) {
+      errors.push('Circuit breaker cooldown must be > 0');
     }
 
     // 验证服务器配置
-    if (this.config.server.port && (this.config.server.port < 1 || this.config.server.port > 65535)) {
+    if (config.server.port && (config.server.port < 1 || config.server.port > 65535)) {
       errors.push('Server port must be between 1 and 65535');
     }
+    const cors = config.server.cors;
+    if (cors) {
+      // 浏览器不接受 "*" 与凭据同时出现
+      const policies: [string, Partial<CorsPolicy>][] = [
+        ['server.cors', cors],
+        ...Object.entries(cors.routes || {})
+          .map(([route, policy]): [string, Partial<CorsPolicy>] => [`server.cors.routes.${route}`, { ...cors, ...policy }])
+      ];
+      for (const [path, policy] of policies) {
+        if (policy.credentials && policy.origin?.includes('*')) {
+          errors.push(`${path} credentials cannot be used with origin "*"`);
+        }
+        if (policy.maxAge !== undefined && !(Number.isInteger(policy.maxAge) && policy.maxAge >= 0)) {
+          errors.push(`${path} maxAge must be an integer >= 0`);
+        }
+      }
+    }
 
     return {
       valid: errors.length === 0,
@@ -289,6 +461,99 @@ export class ConfigManager {
   }
 }
 
+/**
+ * 逐字段比较两份配置，数组作为整体比较；密钥类字段只标记是否变化，不输出原值
+ */
+export function diffConfig(before: unknown, after: unknown, path: string = ''): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(key => diffConfig(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return /(^|\.)apiKey$/.test(path)
+    ? [{ path, before: redact(before), after: redact(after) }]
+    : [{ path, before, after }];
+}
+
+/**
+ * 读取单个渠道的环境变量覆盖项，数值无效时忽略该项并给出警告
+ */
+function readChannelEnv(env: Record<string, string | undefined>, channelName: string): NonNullable<ConfigOverrides['channels']>[string] {
+  const prefix = `CHANNEL_${channelName.toUpperCase()}_`;
+  const channel: NonNullable<ConfigOverrides['channels']>[string] = {};
+
+  const number = (field: string): number | undefined => {
+    const value = env[prefix + field];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      logger.warn('Ignoring non-numeric channel setting', { variable: prefix + field, value });
+      return undefined;
+    }
+    return parsed;
+  };
+
+  if (env[prefix + 'ENABLED'] !== undefined) {
+    channel.enabled = env[prefix + 'ENABLED']!.toLowerCase() === 'true';
+  }
+
+  const priority = number('PRIORITY');
+  if (priority !== undefined) channel.priority = priority;
+  const timeout = number('TIMEOUT');
+  if (timeout !== undefined) channel.timeout = timeout;
+  const retries = number('RETRIES');
+  if (retries !== undefined) channel.retries = retries;
+
+  const requests = number('RATE_LIMIT_REQUESTS');
+  const window = number('RATE_LIMIT_WINDOW');
+  if (requests !== undefined || window !== undefined) {
+    channel.rateLimit = {
+      ...(requests !== undefined && { requests }),
+      ...(window !== undefined && { window })
+    };
+  }
+
+  if (env[prefix + 'API_KEY']) channel.apiKey = env[prefix + 'API_KEY'];
+  if (env[prefix + 'BASE_URL']) channel.baseUrl = env[prefix + 'BASE_URL'];
+  if (env[prefix + 'DOMAINS'] !== undefined) {
+    // 设为空值时取消限制
+    channel.domains = parseList(env[prefix + 'DOMAINS']!).map(domain => domain.toLowerCase());
+  }
+
+  return channel;
+}
+
+/**
+ * 解析逗号分隔的列表
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function redact(value: unknown): unknown {
+  return value === undefined ? undefined : '***';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // 导出单例实例
 export const configManager = new ConfigManager();
 
@@ -0,0 +1,73 @@
+/**
+ * 配置结构校验
+ * 用类型化的 schema 描述配置文件，校验失败时给出精确到字段的路径（如 channels.minmail.rateLimit.window）
+ */
+
+import type { ConfigOverrides, CorsPolicy } from '../types/index.js';
+import { SELECTION_STRATEGIES } from '../providers/selection.js';
+import { s } from '../utils/schema.js';
+import type { Schema, Shape } from '../utils/schema.js';
+
+// 嵌套对象与已有配置逐字段合并，字段均可省略
+const rateLimitSchema = s.object({
+  requests: s.number({ positive: true }),
+  window: s.number({ positive: true })
+});
+
+const corsPolicyShape: Shape<CorsPolicy> = {
+  origin: s.array(s.string()),
+  methods: s.array(s.string()),
+  headers: s.array(s.string()),
+  credentials: s.boolean(),
+  exposeHeaders: s.array(s.string()),
+  maxAge: s.number({ min: 0, integer: true }),
+  csrf: s.boolean()
+};
+
+/**
+ * 配置文件结构
+ * @param channelNames 已知的渠道名称
+ */
+export function createConfigSchema(channelNames: () => string[]): Schema<ConfigOverrides> {
+  return s.object<ConfigOverrides>({
+    channels: s.record(s.object({
+      enabled: s.boolean(),
+      priority: s.number({ min: 1 }),
+      rateLimit: rateLimitSchema,
+      timeout: s.number({ min: 1000 }),
+      retries: s.number({ min: 0, integer: true }),
+      apiKey: s.string(),
+      baseUrl: s.string(),
+      domains: s.array(s.string())
+    }), { keys: channelNames }),
+    server: s.object({
+      port: s.number({ min: 1, max: 65535, integer: true }),
+      host: s.string(),
+      cors: s.object({
+        ...corsPolicyShape,
+        routes: s.record(s.object(corsPolicyShape))
+      })
+    }),
+    security: s.object({
+      apiKey: s.string(),
+      rateLimit: s.object({
+        enabled: s.boolean(),
+        requests: s.number({ positive: true, integer: true }),
+        window: s.number({ positive: true, integer: true })
+      })
+    }),
+    routing: s.object({
+      strategy: s.oneOf(SELECTION_STRATEGIES),
+      failover: s.object({
+        enabled: s.boolean(),
+        maxAttempts: s.number({ min: 1, integer: true })
+      }),
+      circuitBreaker: s.object({
+        enabled: s.boolean(),
+        failureThreshold: s.number({ min: 1, integer: true }),
+        cooldown: s.number({ positive: true }),
+        rateLimitCooldown: s.number({ positive: true })
+      })
+    })
+  });
+}
@@ -4,12 +4,37 @@
  */
 
 import { Hono } from 'hono';
-import { cors } from 'hono/cors';
-import { logger } from 'hono/logger';
+import type { Context } from 'hono';
 import { prettyJSON } from 'hono/pretty-json';
-import { initializeProviders } from './providers/index.js';
+import { streamSSE } from 'hono/streaming';
+import { initializeProviders, providerManager } from './providers/index.js';
+import { loadConfigFile, supportsConfigFile } from './config/file-source.js';
 import { mailService } from './services/mail-service.js';
-import { createApiKeyAuthWithCustomError, getAuthConfig } from './middleware/api-auth.js';
+import { webhookService } from './services/webhook-service.js';
+import { createApiKeyAuthWithCustomError } from './middleware/api-auth.js';
+import { apiKeyRegistry, hasScope } from './services/api-key-registry.js';
+import { usageService } from './services/usage-service.js';
+import { adminService } from './services/admin-service.js';
+import type { QuotaCheck, UsageMetric } from './services/usage-service.js';
+import { createStorageMiddleware } from './middleware/storage.js';
+import { createCorsMiddleware, createCsrfMiddleware } from './middleware/cors.js';
+import { createMetricsMiddleware } from './middleware/metrics.js';
+import { createTracingMiddleware } from './middleware/tracing.js';
+import { createRequestContextMiddleware } from './middleware/request-context.js';
+import { tracer } from './utils/tracing.js';
+import { metricsService } from './services/metrics-service.js';
+import { getEnv } from './utils/env.js';
+import { constantTimeEqual, sha256 } from './utils/helpers.js';
+import { createLogger } from './utils/logger.js';
+import { sendError, sendResult, toFailure } from './utils/errors.js';
+import { createRateLimitMiddleware } from './middleware/rate-limit.js';
+import { getHandleSecret } from './utils/mailbox-handle.js';
+import type { InboxEvent } from './services/inbox-poller.js';
+import type { MailboxRequest } from './types/email.js';
+import type { ApiKeyIdentity, ApiResponse } from './types/index.js';
+import { listEndpoints, routes } from './routes/definitions.js';
+import { getOpenApiDocument, renderSwaggerUi } from './routes/openapi.js';
+import { readBody, readQuery } from './routes/validation.js';
 
 // 基础类型定义
 interface AppResponse {
@@ -21,22 +46,58 @@ interface AppResponse {
   provider?: string;
 }
 
+const logger = createLogger('app');
+
 // 创建 Hono 应用实例
 const app = new Hono();
 
 // 全局中间件
-app.use('*', cors());
-app.use('*', logger());
+app.use('*', createTracingMiddleware());
+app.use('*', createRequestContextMiddleware());
+app.use('*', createMetricsMiddleware());
+app.use('*', createCorsMiddleware());
 app.use('/api/*', prettyJSON());
+app.use('/api/*', createCsrfMiddleware());
+app.use('/api/*', createStorageMiddleware());
+app.use('/api/*', createRateLimitMiddleware());
+
+// 创建API Key验证中间件（按接口所需权限区分）
+const createAuth = createApiKeyAuthWithCustomError('mail:create');
+const readAuth = createApiKeyAuthWithCustomError('mail:read');
+const anyAuth = createApiKeyAuthWithCustomError();
+const adminAuth = createApiKeyAuthWithCustomError('admin');
 
-// 创建API Key验证中间件
-const apiKeyAuth = createApiKeyAuthWithCustomError();
+function quotaMessage(metric: UsageMetric, quota: QuotaCheck): string {
+  return `${quota.period === 'daily' ? 'Daily' : 'Monthly'} ${metric} quota of ${quota.limit} exceeded`;
+}
+
+/**
+ * 超出用量额度时返回 429
+ */
+function rejectQuota(c: Context, metric: UsageMetric, quota: QuotaCheck) {
+  return sendError(c, 'quota_exceeded', quotaMessage(metric, quota), {
+    retryAfter: quota.retryAfter
+  });
+}
+
+/**
+ * 记录调用方在提供者上的一次调用（/api/usage 中按提供者的统计）
+ */
+async function recordProviderUsage(identity: ApiKeyIdentity | undefined, result: ApiResponse, startTime: number) {
+  if (result.provider) {
+    await usageService.recordProviderCall(identity, result.provider, result.success, Date.now() - startTime);
+  }
+}
 
 // 应用初始化状态
 // 在应用启动时初始化providers（仅包含基本配置，不进行网络调用）
-console.log('🚀 Starting TempMailHub initialization...');
+logger.info('Starting TempMailHub initialization');
+// 加载配置文件（Node.js / Deno / Bun），文件变化时自动重新加载
+if (supportsConfigFile()) {
+  await loadConfigFile(() => providerManager.reloadConfig());
+}
 await initializeProviders();
-console.log('✅ TempMailHub initialized successfully');
+logger.info('TempMailHub initialized', { providers: providerManager.getEnabledProviders().map(provider => provider.name) });
 
 // 主页路由
 app.get('/', (c) => {
@@ -443,6 +504,7 @@ app.get('/', (c) => {
         <div class="container">
             <div class="footer-links">
                 <a href="/api/info">API 信息</a>
+                <a href="/docs">API 文档</a>
                 <a href="/health">服务状态</a>
                 <a href="https://github.com/hzruo/tempmailhub" target="_blank">GitHub</a>
             </div>
@@ -458,7 +520,7 @@ app.get('/', (c) => {
 });
 
 // 健康检查路由
-app.get('/health', (c) => {
+app.get(routes.health.path, (c) => {
   const response: AppResponse = {
     success: true,
     message: 'TempMailHub is running',
@@ -473,8 +535,22 @@ app.get('/health', (c) => {
   return c.json(response);
 });
 
+// Prometheus 指标，设置 TEMPMAILHUB_METRICS_TOKEN 后需要携带 Authorization: Bearer <token>
+app.get(routes.metrics.path, async (c) => {
+  const token = getEnv(c, 'TEMPMAILHUB_METRICS_TOKEN');
+  // 比较摘要而不是原文，耗时与令牌内容和长度无关
+  if (token && !constantTimeEqual(await sha256(c.req.header('Authorization') || ''), await sha256(`Bearer ${token}`))) {
+    return c.text('Unauthorized\n', 401);
+  }
+
+  return c.text(metricsService.render(), 200, {
+    'Content-Type': 'text/plain; version=0.0.4; charset=utf-8'
+  });
+});
+
 // API 信息路由
-app.get('/api/info', (c) => {
+app.get(routes.info.path, async (c) => {
+  const authEnabled = await apiKeyRegistry.isEnabled(c);
   const response: AppResponse = {
     success: true,
     data: {
@@ -497,26 +573,19 @@ app.get('/api/info', (c) => {
         { name: 'VanishPost', domains: ['服务端分配'], customizable: false }
       ],
       authentication: {
-        enabled: getAuthConfig(c.env).enabled,
+        enabled: authEnabled,
         method: 'Bearer Token',
         header: 'Authorization: Bearer <api-key>',
-        note: getAuthConfig(c.env).enabled 
+        scopes: ['mail:create', 'mail:read', 'admin'],
+        note: authEnabled 
           ? 'API Key authentication is enabled. Protected endpoints require valid API key.'
           : 'API Key authentication is disabled. All endpoints are publicly accessible.'
       },
-      endpoints: {
-        public: [
-          'GET /health - 健康检查',
-          'GET /api/info - API 信息',
-          'POST /api/mail/providers/test-connections - 测试所有提供者连接',
-          'GET /api/mail/providers/stats - 提供者统计信息'
-        ],
-        protected: [
-          'POST /api/mail/create - 创建临时邮箱',
-          'POST /api/mail/list - 获取邮件列表',
-          'POST /api/mail/content - 获取邮件详情'
-        ]
-      }
+      documentation: {
+        openapi: routes.openapi.path,
+        ui: routes.docs.path
+      },
+      endpoints: listEndpoints()
     },
     timestamp: new Date().toISOString()
   };
@@ -524,106 +593,303 @@ app.get('/api/info', (c) => {
   return c.json(response);
 });
 
+// OpenAPI 文档（由 routes/definitions.ts 生成）
+app.get(routes.openapi.path, (c) => {
+  return c.json(getOpenApiDocument());
+});
+
+// 接口文档页面
+app.get(routes.docs.path, (c) => {
+  return c.html(renderSwaggerUi(routes.openapi.path));
+});
+
 // 创建邮箱路由
-app.post('/api/mail/create', apiKeyAuth, async (c) => {
+app.post(routes.createEmail.path, createAuth, async (c) => {
   try {
-    let body = {};
-    
-    try {
-      body = await c.req.json();
-    } catch (error) {
-      // 如果没有body或解析失败，使用默认空对象
+    const body = await readBody(c, routes.createEmail);
+
+    const identity = c.get('apiKey');
+    const requestedProvider = body.provider;
+    if (identity?.providers && requestedProvider && !identity.providers.includes(requestedProvider)) {
+      return sendError(c, 'forbidden', `API key is not allowed to use provider: ${requestedProvider}`);
+    }
+
+    const quota = await usageService.reserve(identity, 'mailboxes');
+    if (!quota.allowed) {
+      return rejectQuota(c, 'mailboxes', quota);
     }
 
-    const result = await mailService.createEmail(body);
+    // 只把定义过的字段传给提供者
+    const { provider, domain, prefix, expirationMinutes, strategy } = body;
+    const startTime = Date.now();
+    const result = await mailService.createEmail({ provider, domain, prefix, expirationMinutes, strategy }, {
+      handleSecret: getHandleSecret(c),
+      allowedProviders: identity?.providers,
+      identity
+    });
+
+    if (!result.success) {
+      await usageService.release(identity, 'mailboxes', quota);
+    }
+    await recordProviderUsage(identity, result, startTime);
     
-    return c.json(result, result.success ? 200 : 400);
+    return sendResult(c, result);
   } catch (error) {
-    const response: AppResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-      timestamp: new Date().toISOString()
-    };
-
-    return c.json(response, 500);
+    return sendResult(c, toFailure(error));
   }
 });
 
 // 获取邮件列表路由 (POST)
-app.post('/api/mail/list', apiKeyAuth, async (c) => {
+app.post(routes.listEmails.path, readAuth, async (c) => {
   try {
-    const body = await c.req.json();
-    
-    if (!body.address) {
-      return c.json({
-        success: false,
-        error: 'Email address is required',
-        timestamp: new Date().toISOString()
-      }, 400);
+    const body = await readBody(c, routes.listEmails);
+
+    const identity = c.get('apiKey');
+    // 按页大小预留用量，剩余额度不足一页时只返回剩余额度内的邮件
+    const quota = await usageService.reserve(identity, 'messages', body.limit || 20, { partial: true });
+    if (!quota.allowed) {
+      return rejectQuota(c, 'messages', quota);
     }
 
     // 只从请求体中获取accessToken，避免与API Key认证冲突
     const accessToken = body.accessToken;
 
     const query = {
-      address: body.address,
+      address: body.address || '',
       provider: body.provider,
+      handle: body.handle,
       accessToken,
-      limit: body.limit || 20,
+      limit: quota.amount,
       offset: body.offset || 0,
       unreadOnly: body.unreadOnly === true,
       since: body.since ? new Date(body.since) : undefined
     };
 
-    const result = await mailService.getEmails(query);
+    const startTime = Date.now();
+    const result = await mailService.getEmails(query, {
+      handleSecret: getHandleSecret(c),
+      extract: body.extract === true,
+      allowedProviders: identity?.providers,
+      identity
+    });
+
+    await usageService.release(identity, 'messages', quota, result.success ? result.data?.length : 0);
+    await recordProviderUsage(identity, result, startTime);
     
-    return c.json(result, result.success ? 200 : 400);
+    return sendResult(c, result);
   } catch (error) {
-    const response: AppResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Invalid request body or internal server error',
-      timestamp: new Date().toISOString()
-    };
-
-    return c.json(response, 500);
+    return sendResult(c, toFailure(error));
   }
 });
 
 // 获取邮件详情路由 (POST)
-app.post('/api/mail/content', apiKeyAuth, async (c) => {
+app.post(routes.emailContent.path, readAuth, async (c) => {
   try {
-    const body = await c.req.json();
-    
-    if (!body.address || !body.id) {
-      return c.json({
-        success: false,
-        error: 'Email address and email ID are required',
-        timestamp: new Date().toISOString()
-      }, 400);
+    const body = await readBody(c, routes.emailContent);
+
+    const identity = c.get('apiKey');
+    const quota = await usageService.reserve(identity, 'messages');
+    if (!quota.allowed) {
+      return rejectQuota(c, 'messages', quota);
     }
 
     // 只从请求体中获取accessToken，避免与API Key认证冲突
     const accessToken = body.accessToken;
 
-    const result = await mailService.getEmailContent(body.address, body.id, body.provider, accessToken);
+    const startTime = Date.now();
+    const result = await mailService.getEmailContent(body.address || '', body.id, body.provider, accessToken, {
+      handle: body.handle,
+      handleSecret: getHandleSecret(c),
+      extract: body.extract === true,
+      allowedProviders: identity?.providers,
+      identity
+    });
+
+    if (!result.success) {
+      await usageService.release(identity, 'messages', quota);
+    }
+    await recordProviderUsage(identity, result, startTime);
     
-    return c.json(result, result.success ? 200 : 404);
+    return sendResult(c, result);
   } catch (error) {
-    const response: AppResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Invalid request body or internal server error',
-      timestamp: new Date().toISOString()
+    return sendResult(c, toFailure(error));
+  }
+});
+
+
+// 等待邮件路由 (POST，长轮询)
+app.post(routes.waitEmail.path, readAuth, async (c) => {
+  try {
+    const body = await readBody(c, routes.waitEmail);
+
+    const identity = c.get('apiKey');
+    const quota = await usageService.reserve(identity, 'messages');
+    if (!quota.allowed) {
+      return rejectQuota(c, 'messages', quota);
+    }
+
+    const query = {
+      address: body.address || '',
+      provider: body.provider,
+      handle: body.handle,
+      accessToken: body.accessToken,
+      since: body.since ? new Date(body.since) : undefined,
+      timeout: body.timeout,
+      filters: {
+        from: body.from,
+        subject: body.subject,
+        body: body.body
+      }
     };
 
-    return c.json(response, 500);
+    const startTime = Date.now();
+    const result = await mailService.waitForEmail(query, {
+      handleSecret: getHandleSecret(c),
+      allowedProviders: identity?.providers,
+      identity,
+      signal: c.req.raw.signal
+    });
+
+    if (!result.success) {
+      await usageService.release(identity, 'messages', quota);
+    }
+    await recordProviderUsage(identity, result, startTime);
+
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
+
+// 收件箱事件流路由 (GET，Server-Sent Events)
+app.get(routes.inboxStream.path, readAuth, async (c) => {
+  let mailboxQuery: MailboxRequest;
+  try {
+    mailboxQuery = readQuery(c, routes.inboxStream);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+
+  const identity = c.get('apiKey');
+  const quota = await usageService.check(identity, 'messages');
+  if (!quota.allowed) {
+    return rejectQuota(c, 'messages', quota);
+  }
+
+  // 订阅回调是同步的，先缓存事件再由流写出
+  const pending: InboxEvent[] = [];
+  let wake: (() => void) | null = null;
+
+  const subscription = await mailService.watchInbox({
+    address: mailboxQuery.address || '',
+    provider: mailboxQuery.provider,
+    handle: mailboxQuery.handle,
+    accessToken: mailboxQuery.accessToken
+  }, event => {
+    pending.push(event);
+    wake?.();
+  }, { handleSecret: getHandleSecret(c), allowedProviders: identity?.providers, identity });
+
+  if (!subscription.success || !subscription.data) {
+    return sendResult(c, subscription);
   }
+
+  const { unsubscribe, ...mailbox } = subscription.data;
+
+  // 断线重连时跳过客户端已收到的补发邮件
+  const lastEventId = c.req.header('Last-Event-ID');
+  const resumeIndex = lastEventId ? pending.findIndex(event => event.message?.id === lastEventId) : -1;
+  if (resumeIndex >= 0) {
+    pending.splice(0, resumeIndex + 1);
+  }
+
+  return streamSSE(c, async (stream) => {
+    stream.onAbort(() => {
+      unsubscribe();
+      wake?.();
+    });
+
+    await stream.writeSSE({ event: 'ready', data: JSON.stringify(mailbox) });
+
+    while (!stream.aborted) {
+      while (pending.length > 0) {
+        const event = pending.shift()!;
+        if (event.type === 'message' && event.message) {
+          // 每推送一封邮件计入一次 messages 用量，额度用完时结束事件流
+          const quota = await usageService.reserve(identity, 'messages');
+          if (!quota.allowed) {
+            await stream.writeSSE({
+              event: 'error',
+              data: JSON.stringify({ error: quotaMessage('messages', quota), code: 'quota_exceeded', retryAfter: quota.retryAfter })
+            });
+            unsubscribe();
+            return;
+          }
+          await stream.writeSSE({ event: 'message', id: event.message.id, data: JSON.stringify(event.message) });
+        } else {
+          await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: event.error }) });
+        }
+      }
+
+      // 等待新事件，15 秒无事件时发送心跳保持连接
+      const received = await new Promise<boolean>(resolve => {
+        const timer = setTimeout(() => resolve(false), 15000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+      });
+      wake = null;
+
+      if (!received && !stream.aborted) {
+        await stream.writeSSE({ event: 'ping', data: new Date().toISOString() });
+      }
+    }
+  }, async (error) => {
+    logger.error('Inbox stream error', { error });
+    unsubscribe();
+  });
 });
 
+// 注册 webhook 路由 (POST)
+app.post(routes.createWebhook.path, readAuth, async (c) => {
+  try {
+    const body = await readBody(c, routes.createWebhook);
+
+    const identity = c.get('apiKey');
+    const quota = await usageService.check(identity, 'messages');
+    if (!quota.allowed) {
+      return rejectQuota(c, 'messages', quota);
+    }
 
+    const result = await webhookService.register({
+      address: body.address,
+      handle: body.handle,
+      provider: body.provider,
+      accessToken: body.accessToken,
+      url: body.url,
+      secret: body.secret,
+      filters: body.filters
+    }, { handleSecret: getHandleSecret(c), allowedProviders: identity?.providers, identity });
+
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
 
+// 取消 webhook 路由 (DELETE)
+app.delete(routes.deleteWebhook.path, readAuth, async (c) => {
+  try {
+    const result = await webhookService.unregister(c.req.param('id') || '', c.get('apiKey'));
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
 
 // 强制测试所有provider连接状态
-app.post('/api/mail/providers/test-connections', async (c) => {
+app.post(routes.testConnections.path, async (c) => {
   try {
     // 强制重新测试所有provider的连接
     const result = await mailService.getProvidersHealth();
@@ -635,27 +901,103 @@ app.post('/api/mail/providers/test-connections', async (c) => {
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to test provider connections',
-      timestamp: new Date().toISOString()
-    }, 500);
+    return sendResult(c, toFailure(error));
+  }
+});
+
+// 提供者健康状态路由（包含熔断器状态）
+app.get(routes.providersHealth.path, async (c) => {
+  try {
+    const result = await mailService.getProvidersHealth();
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
   }
 });
 
 // 提供者统计信息路由
-app.get('/api/mail/providers/stats', (c) => {
+app.get(routes.providersStats.path, (c) => {
   try {
     const result = mailService.getProvidersStats();
-    return c.json(result, result.success ? 200 : 500);
+    return sendResult(c, result);
   } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
+
+// 用量查询路由（当前 API Key 的每日 / 每月用量，admin 额外返回各提供者统计）
+app.get(routes.usage.path, anyAuth, async (c) => {
+  try {
+    const identity = c.get('apiKey');
+    if (!identity) {
+      return sendError(c, 'invalid_request', 'Usage reporting requires API key authentication to be enabled');
+    }
+
     const response: AppResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
+      success: true,
+      data: {
+        key: { id: identity.id, label: identity.label },
+        ...(await usageService.getUsage(identity)),
+        providers: hasScope(identity, 'admin') ? await usageService.getProviderUsage(identity) : undefined
+      },
       timestamp: new Date().toISOString()
     };
 
-    return c.json(response, 500);
+    return c.json(response);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
+
+// 管理接口：需要 admin 权限，未配置 API Key 时不开放
+app.use('/api/admin/*', adminAuth, async (c, next) => {
+  if (!c.get('apiKey')) {
+    return sendError(c, 'forbidden', 'Admin API requires API key authentication to be enabled');
+  }
+  return next();
+});
+
+// 渠道列表
+app.get(routes.listChannels.path, (c) => {
+  return c.json(adminService.listChannels());
+});
+
+// 渠道详情
+app.get(routes.getChannel.path, (c) => {
+  const result = adminService.getChannel(c.req.param('name'));
+  return sendResult(c, result);
+});
+
+// 修改渠道配置（enabled / priority / timeout / retries / rateLimit）
+app.patch(routes.updateChannel.path, async (c) => {
+  try {
+    const body = await readBody(c, routes.updateChannel);
+    const result = adminService.updateChannel(c.req.param('name'), body);
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
+  }
+});
+
+// 启用渠道
+app.post(routes.enableChannel.path, (c) => {
+  const result = adminService.setChannelEnabled(c.req.param('name'), true);
+  return sendResult(c, result);
+});
+
+// 禁用渠道（立即退出渠道选择）
+app.post(routes.disableChannel.path, (c) => {
+  const result = adminService.setChannelEnabled(c.req.param('name'), false);
+  return sendResult(c, result);
+});
+
+// 重新加载配置
+app.post(routes.reload.path, async (c) => {
+  try {
+    const result = await adminService.reload();
+    return sendResult(c, result);
+  } catch (error) {
+    return sendResult(c, toFailure(error));
   }
 });
 
@@ -663,22 +1005,22 @@ app.get('/api/mail/providers/stats', (c) => {
 
 // 404 处理
 app.notFound((c) => {
-  return c.json({
-    success: false,
-    error: 'Endpoint not found',
-    timestamp: new Date().toISOString()
-  }, 404);
+  return sendError(c, 'not_found', 'Endpoint not found');
 });
 
 // 错误处理
 app.onError((err, c) => {
-  console.error('Application error:', err);
-  return c.json({
-    success: false,
-    error: 'Internal server error',
-    timestamp: new Date().toISOString()
-  }, 500);
+  logger.error('Unhandled error', { method: c.req.method, path: c.req.path, error: err });
+  return sendError(c, 'internal_error', 'Internal server error');
 });
 
 // 导出应用实例
-export default app; 
\ No newline at end of file
+// Workers 的 Cron Trigger 调用 scheduled，检查 webhook 并推送新邮件
+export { app };
+export default {
+  fetch: app.fetch,
+  scheduled(_event: unknown, env: unknown, ctx: { waitUntil(promise: Promise<unknown>): void }) {
+    tracer.configure({ env });
+    ctx.waitUntil(webhookService.runOnce({ env }).finally(() => tracer.flush()));
+  }
+}; 
\ No newline at end of file
@@ -3,15 +3,19 @@ import type {
   EmailMessage,
   CreateEmailRequest,
   CreateEmailResponse,
-  EmailListQuery
+  EmailListQuery,
+  MailboxCredentials,
+  SelectionStrategy
 } from '../types/email.js';
 import type {
   ChannelConfiguration,
   ChannelHealth,
   ChannelStats,
   ChannelResponse,
-  ChannelCapabilities
+  ChannelCapabilities,
+  ChannelRateLimitStatus
 } from '../types/channel.js';
+import type { ConfigReloadResult } from '../types/index.js';
 
 /**
  * 邮件提供者统一接口
@@ -58,9 +62,19 @@ export interface IMailProvider {
    * @param emailAddress 邮箱地址
    * @param emailId 邮件ID
    * @param accessToken 可选的访问令牌
+   * @param credentials 可选的会话凭据（从邮箱句柄还原）
    * @returns 邮件详细内容
    */
-  getEmailContent(emailAddress: string, emailId: string, accessToken?: string): Promise<ChannelResponse<EmailMessage>>;
+  getEmailContent(emailAddress: string, emailId: string, accessToken?: string, credentials?: MailboxCredentials): Promise<ChannelResponse<EmailMessage>>;
+
+  /**
+   * 订阅新邮件推送（可选，capabilities.realTimeUpdates 为 true 时使用，否则由服务端轮询）
+   * @param emailAddress 邮箱地址
+   * @param onMessage 收到新邮件时的回调
+   * @param credentials 可选的会话凭据
+   * @returns 取消订阅函数
+   */
+  watchEmails?(emailAddress: string, onMessage: (message: EmailMessage) => void, credentials?: MailboxCredentials): () => void;
 
   /**
    * 验证邮箱地址是否存在且有效
@@ -94,6 +108,16 @@ export interface IMailProvider {
    */
   testConnection(): Promise<ChannelResponse<boolean>>;
 
+  /**
+   * 获取本地限流状态（未配置限流时不返回）
+   */
+  getRateLimitStatus?(): ChannelRateLimitStatus | undefined;
+
+  /**
+   * 运行时应用新的渠道配置
+   */
+  reconfigure?(config: ChannelConfiguration): void;
+
   /**
    * 清理过期数据（如果需要）
    */
@@ -152,9 +176,25 @@ export interface IProviderManager {
   /**
    * 获取最佳提供者（根据优先级和健康状态）
    * @param capabilities 需要的能力
+   * @param strategy 选择策略，默认使用配置中的策略
    * @returns 最佳提供者
    */
-  getBestProvider(capabilities?: Partial<ChannelCapabilities>): IMailProvider | undefined;
+  getBestProvider(capabilities?: Partial<ChannelCapabilities>, strategy?: SelectionStrategy): IMailProvider | undefined;
+
+  /**
+   * 获取按选择策略排列的可用提供者
+   * @param capabilities 需要的能力
+   * @param strategy 选择策略，默认使用配置中的策略
+   * @returns 提供者列表，第一个即最佳提供者
+   */
+  getRankedProviders(capabilities?: Partial<ChannelCapabilities>, strategy?: SelectionStrategy): IMailProvider[];
+
+  /**
+   * 记录渠道调用结果（驱动熔断器）
+   * @param name 提供者名称
+   * @param response 调用结果
+   */
+  recordResult(name: string, response: ChannelResponse<unknown>): void;
 
   /**
    * 获取所有提供者的健康状态
@@ -168,8 +208,15 @@ export interface IProviderManager {
    */
   getAllStats(): Record<string, ChannelStats>;
 
+  /**
+   * 将配置管理器中的渠道配置应用到提供者
+   * @param name 提供者名称
+   */
+  applyChannelConfig(name: string): void;
+
   /**
    * 重新加载配置
+   * @returns 配置校验结果，校验失败时保留原配置
    */
-  reloadConfig(): Promise<void>;
+  reloadConfig(): Promise<ConfigReloadResult>;
 } 
\ No newline at end of file
@@ -1,12 +1,23 @@
-import { bearerAuth } from 'hono/bearer-auth';
 import { env, getRuntimeKey } from 'hono/adapter';
 import type { Context, Next } from 'hono';
+import type { ApiKeyIdentity, ApiKeyScope } from '../types/index.js';
+import { apiKeyRegistry, hasScope } from '../services/api-key-registry.js';
+import { sendError } from '../utils/errors.js';
+import { createLogger } from '../utils/logger.js';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    apiKey?: ApiKeyIdentity;  // 认证通过的调用方身份，供日志和配额使用
+  }
+}
 
 export interface AuthConfig {
   apiKey?: string;
   enabled: boolean;
 }
 
+const logger = createLogger('auth');
+
 /**
  * 从环境变量获取认证配置
  * 优先使用 Hono 官方的跨运行时 env() 函数，提供 fallback 确保兼容性
@@ -64,7 +75,7 @@ function getApiKeyFromContext(c: Context): { apiKey: string | undefined; platfor
     
     return { apiKey, platform };
   } catch (error) {
-    console.warn('获取环境变量失败，使用 fallback 方式:', error);
+    logger.warn('Failed to read environment through hono/adapter, falling back to globals', { error });
     
     // 3. Fallback: 手动检测（保持向后兼容）
     return getFallbackApiKey();
@@ -85,7 +96,7 @@ function getFallbackApiKey(): { apiKey: string | undefined; platform: string } {
         apiKey = (globalThis as any).Deno.env.get('TEMPMAILHUB_API_KEY');
         platform = 'deno';
       } catch (denoError) {
-        console.warn('Deno env access error (需要 --allow-env 权限):', denoError);
+        logger.warn('Cannot read Deno environment (requires --allow-env)', { error: denoError });
       }
     }
     
@@ -105,77 +116,31 @@ function getFallbackApiKey(): { apiKey: string | undefined; platform: string } {
       }
     }
   } catch (error) {
-    console.warn('Fallback 环境变量获取失败:', error);
+    logger.warn('Failed to read environment variables', { error });
   }
   
   return { apiKey, platform };
 }
 
-/**
- * 输出环境信息（调试用）
- */
-function logEnvironmentInfo(c: Context): void {
-  console.log('\n=== 环境信息 ===');
-  
-  try {
-    // 检查是否为 Cloudflare Workers
-    if (c.env && typeof c.env === 'object') {
-      console.log('- 运行时: cloudflare');
-      console.log('- Cloudflare Workers: true');
-      console.log('=================\n');
-      return;
-    }
-    
-    // 其他运行时使用 Hono 的方式
-    const runtime = getRuntimeKey();
-    console.log('- 运行时:', runtime);
-    
-    const envVars = env<{
-      VERCEL?: string;
-      NETLIFY?: string;
-      NODE_ENV?: string;
-    }>(c);
-    
-    console.log('- Vercel平台:', !!envVars.VERCEL);
-    console.log('- Netlify平台:', !!envVars.NETLIFY);
-    console.log('- 开发环境:', envVars.NODE_ENV === 'development');
-  } catch (error) {
-    console.log('- 环境信息获取失败:', error);
-  }
-  
-  console.log('=================\n');
-}
+// 各平台设置 TEMPMAILHUB_API_KEY 的方式
+const API_KEY_GUIDES: Record<string, string> = {
+  cloudflare: 'Cloudflare Workers: Dashboard > Workers & Pages > your project > Settings > Environment Variables',
+  workerd: 'Cloudflare Workers: Dashboard > Workers & Pages > your project > Settings > Environment Variables',
+  vercel: 'Vercel: vercel env add TEMPMAILHUB_API_KEY',
+  netlify: 'Netlify: Dashboard > Site settings > Environment variables',
+  deno: 'Deno Deploy: Dashboard > Settings > Environment Variables'
+};
 
 /**
- * 显示 API Key 设置指南
+ * 提示 API Key 未设置及设置方式
  */
-function showApiKeyGuide(platform: string): void {
-  console.log('\n🔑 API Key 未设置，如需启用认证，请设置 TEMPMAILHUB_API_KEY 环境变量：\n');
-  
-  switch (platform) {
-    case 'cloudflare':
-    case 'workerd':
-      console.log('   Cloudflare Workers: 在 Dashboard 的 Workers & Pages > 你的项目 > Settings > Environment Variables 中设置');
-      break;
-    case 'vercel':
-      console.log('   Vercel: vercel env add TEMPMAILHUB_API_KEY');
-      break;
-    case 'netlify':
-      console.log('   Netlify: 在 Dashboard 的 Site settings > Environment variables 中设置');
-      break;
-    case 'deno':
-      console.log('   Deno Deploy: 在 Dashboard 的 Settings > Environment Variables 中设置');
-      break;
-    case 'node':
-    case 'bun':
-    case 'development':
-    default:
-      console.log('   本地开发: 在 .env 文件中设置 TEMPMAILHUB_API_KEY=your-secret-key');
-      console.log('   生产环境: 通过环境变量设置');
-      break;
-  }
-  
-  console.log('\n');
+function warnAuthDisabled(c: Context): void {
+  const { platform } = getApiKeyFromContext(c);
+  logger.warn('API key authentication is disabled, all endpoints are publicly accessible', {
+    runtime: getRuntimeKey(),
+    platform,
+    hint: `Set TEMPMAILHUB_API_KEY to enable authentication. ${API_KEY_GUIDES[platform] || 'Local development: add TEMPMAILHUB_API_KEY=your-secret-key to .env'}`
+  });
 }
 
 // 全局变量用于控制指南显示（避免重复输出）
@@ -183,75 +148,53 @@ declare global {
   var __apiKeyGuideShown: boolean | undefined;
 }
 
+// 认证失败原因对应的提示
+const AUTH_FAILURE_MESSAGES = {
+  invalid: 'Invalid API key. Please provide a valid Bearer token.',
+  expired: 'API key has expired.',
+  revoked: 'API key has been revoked.'
+};
+
 /**
  * 创建带自定义错误的 API Key 认证中间件
+ * 支持多个密钥（见 api-key-registry），认证通过后将调用方身份写入 c.get('apiKey')
+ * @param requiredScope 访问该路由所需的权限，admin 拥有全部权限
  */
-export function createApiKeyAuthWithCustomError() {
+export function createApiKeyAuthWithCustomError(requiredScope?: ApiKeyScope) {
   return async (c: Context, next: Next) => {
-    // 优先使用原有方式支持 Cloudflare Workers（向后兼容）
-    const config = getAuthConfig(c.env);
-    
-    if (config.enabled) {
-      // Cloudflare Workers 环境，使用原有的认证逻辑
-      const authHeader = c.req.header('Authorization');
-      
-      if (!authHeader?.startsWith('Bearer ')) {
-        return c.json({
-          success: false,
-          error: 'Missing API key. Please provide Authorization header with Bearer token.',
-          message: 'Authentication required',
-          timestamp: new Date().toISOString()
-        }, 401);
-      }
-      
-      const token = authHeader.replace('Bearer ', '');
-      
-      if (token !== config.apiKey) {
-        return c.json({
-          success: false,
-          error: 'Invalid API key. Please provide a valid Bearer token.',
-          message: 'Authentication failed',
-          timestamp: new Date().toISOString()
-        }, 401);
-      }
-      
-      return next();
-    }
-    
-    // 对于其他平台，使用跨运行时方式
-    const { apiKey, platform } = getApiKeyFromContext(c);
-    
-    // 如果没有设置 API Key，跳过认证
-    if (!apiKey) {
-      // 第一次访问时显示环境信息和设置指南
+    // 没有配置任何 API Key 时跳过认证
+    if (!(await apiKeyRegistry.isEnabled(c))) {
+      // 只在第一次访问时提示
       if (!globalThis.__apiKeyGuideShown) {
-        logEnvironmentInfo(c);
-        showApiKeyGuide(platform);
+        warnAuthDisabled(c);
         globalThis.__apiKeyGuideShown = true;
       }
-      
-      console.log('⚠️  API Key 认证已禁用 - 所有接口公开访问');
       return next();
     }
+
+    const authHeader = c.req.header('Authorization');
+    
+    if (!authHeader?.startsWith('Bearer ')) {
+      c.header('WWW-Authenticate', 'Bearer realm="TempMailHub API"');
+      return sendError(c, 'unauthorized', 'Missing API key. Please provide Authorization header with Bearer token.');
+    }
     
-    // 使用 Hono 的 bearerAuth 中间件
-    const auth = bearerAuth({
-      token: apiKey,
-      realm: 'TempMailHub API',
-      invalidTokenMessage: {
-        success: false,
-        error: 'Invalid API key. Please provide a valid Bearer token.',
-        message: 'Authentication failed',
-        timestamp: new Date().toISOString()
-      },
-      noAuthenticationHeaderMessage: {
-        success: false,
-        error: 'Missing API key. Please provide Authorization header with Bearer token.',
-        message: 'Authentication required',
-        timestamp: new Date().toISOString()
+    const result = await apiKeyRegistry.authenticate(c, authHeader.slice('Bearer '.length).trim());
+    
+    if (!result.ok) {
+      // 配置了密钥来源但没有可用的密钥：拒绝请求而不是放行
+      if (result.reason === 'unavailable') {
+        return sendError(c, 'internal_error', 'API key authentication is misconfigured: no valid API keys are loaded.');
       }
-    });
+      c.header('WWW-Authenticate', 'Bearer realm="TempMailHub API", error="invalid_token"');
+      return sendError(c, 'unauthorized', AUTH_FAILURE_MESSAGES[result.reason]);
+    }
+
+    if (requiredScope && !hasScope(result.identity, requiredScope)) {
+      return sendError(c, 'forbidden', `API key does not have the required scope: ${requiredScope}`);
+    }
     
-    return auth(c, next);
+    c.set('apiKey', result.identity);
+    return next();
   };
-} 
\ No newline at end of file
+}
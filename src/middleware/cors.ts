@@ -0,0 +1,125 @@
+import type { Context, Next } from 'hono';
+import { cors } from 'hono/cors';
+import { configManager } from '../config/index.js';
+import type { CorsPolicy, ServerConfig } from '../types/index.js';
+import { sendError } from '../utils/errors.js';
+
+// 不改变服务端状态的请求方法，不做 CSRF 检查
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const DEFAULT_POLICY: NonNullable<ServerConfig['cors']> = {
+  origin: ['*'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  headers: []
+};
+
+/**
+ * 获取请求路径适用的策略：server.cors 与 routes 中最长匹配的路径规则合并
+ * 路径规则以 * 结尾时按前缀匹配，否则精确匹配
+ */
+export function resolveCorsPolicy(path: string): CorsPolicy {
+  const { routes, ...base } = configManager.getConfig().server.cors || DEFAULT_POLICY;
+
+  const route = Object.keys(routes || {})
+    .filter(pattern => pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : path === pattern)
+    .sort((a, b) => b.length - a.length)[0];
+
+  return route ? { ...base, ...routes![route] } : base;
+}
+
+/**
+ * 判断来源是否在允许列表中
+ * 支持 "*"、完整来源（https://app.example.com）和通配子域名（https://*.example.com 匹配任意层级子域名，不匹配 example.com 本身）；
+ * 省略协议时匹配 http 和 https
+ */
+export function isOriginAllowed(origin: string, allowed: string[]): boolean {
+  return allowed.some(pattern => {
+    if (pattern === '*') {
+      return true;
+    }
+    const source = pattern
+      .toLowerCase()
+      .split('*.')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('(?:[a-z0-9-]+\\.)+');
+    const scheme = pattern.includes('://') ? '' : 'https?:\\/\\/';
+    return new RegExp(`^${scheme}${source}$`).test(origin.toLowerCase());
+  });
+}
+
+/**
+ * 创建 CORS 中间件
+ * 每次请求按路径读取 server.cors 配置，配置文件热重载和环境变量的修改都能生效
+ */
+export function createCorsMiddleware() {
+  let cached: { key: string; handlers: Map<string, ReturnType<typeof cors>> } | null = null;
+
+  return (c: Context, next: Next) => {
+    const key = JSON.stringify(configManager.getConfig().server.cors);
+    if (!cached || cached.key !== key) {
+      cached = { key, handlers: new Map() };
+    }
+
+    const policy = resolveCorsPolicy(c.req.path);
+    const policyKey = JSON.stringify(policy);
+    let handler = cached.handlers.get(policyKey);
+    if (!handler) {
+      handler = cors({
+        origin: policy.origin.includes('*')
+          ? '*'
+          : (origin: string) => (isOriginAllowed(origin, policy.origin) ? origin : null),
+        allowMethods: policy.methods,
+        allowHeaders: policy.headers,
+        exposeHeaders: policy.exposeHeaders,
+        credentials: policy.credentials,
+        maxAge: policy.maxAge
+      });
+      cached.handlers.set(policyKey, handler);
+    }
+
+    return handler(c, next);
+  };
+}
+
+/**
+ * 创建 CSRF 来源检查中间件
+ * 策略启用 csrf 时，浏览器发起的写请求（POST、PUT、PATCH、DELETE 等）必须来自同源或允许列表中的来源，否则返回 403。
+ * 允许列表中的 "*" 不参与检查；不带 Origin 的非浏览器请求（curl、服务端调用）不受影响
+ */
+export function createCsrfMiddleware() {
+  return async (c: Context, next: Next) => {
+    if (SAFE_METHODS.has(c.req.method)) {
+      return next();
+    }
+
+    const policy = resolveCorsPolicy(c.req.path);
+    if (!policy.csrf) {
+      return next();
+    }
+
+    const origin = c.req.header('Origin');
+    const fetchSite = c.req.header('Sec-Fetch-Site');
+    const allowed = origin
+      ? isSameOrigin(c, origin) || isOriginAllowed(origin, policy.origin.filter(pattern => pattern !== '*'))
+      : fetchSite !== 'cross-site';
+
+    if (!allowed) {
+      return sendError(c, 'forbidden', `Cross-origin request from ${origin || 'unknown origin'} is not allowed`);
+    }
+
+    return next();
+  };
+}
+
+/**
+ * 来源与请求的 Host 一致（部署在反向代理后时 Host 为对外域名）
+ */
+function isSameOrigin(c: Context, origin: string): boolean {
+  try {
+    const host = c.req.header('Host') || new URL(c.req.url).host;
+    return new URL(origin).host.toLowerCase() === host.toLowerCase();
+  } catch {
+    // Origin: null 等无法解析的来源
+    return false;
+  }
+}
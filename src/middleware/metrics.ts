@@ -0,0 +1,23 @@
+import type { Context, Next } from 'hono';
+import { metricsService } from '../services/metrics-service.js';
+
+/**
+ * 创建入站请求指标中间件
+ * 按匹配到的路由模式（如 /api/mail/list）而不是实际路径统计，未匹配任何路由的请求记为 unmatched
+ */
+export function createMetricsMiddleware() {
+  return async (c: Context, next: Next) => {
+    const startTime = Date.now();
+    try {
+      await next();
+    } finally {
+      metricsService.recordHttpRequest(c.req.method, getRoute(c), c.res.status, Date.now() - startTime);
+    }
+  };
+}
+
+function getRoute(c: Context): string {
+  // 最后执行的处理函数对应的路由；通配中间件（如限流）直接返回时使用其路径
+  const route = c.req.matchedRoutes[c.req.routeIndex];
+  return route && route.path !== '/*' && route.path !== '*' ? route.path : 'unmatched';
+}
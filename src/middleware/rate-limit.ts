@@ -0,0 +1,148 @@
+import type { Context, Next } from 'hono';
+import { configManager } from '../config/index.js';
+import { getStorage, MemoryKeyValueStore } from '../storage/index.js';
+import type { KeyValueStore } from '../storage/index.js';
+import { getEnv } from '../utils/env.js';
+import { apiKeyRegistry } from '../services/api-key-registry.js';
+import { sendError } from '../utils/errors.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('rate-limit');
+
+/**
+ * 一次计数的结果
+ */
+export interface RateLimitHit {
+  count: number;    // 当前窗口内的请求数（包含本次）
+  resetAt: number;  // 当前窗口结束时间（毫秒时间戳）
+}
+
+/**
+ * 限流计数存储接口
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * 基于键值存储的固定窗口计数器
+ * 传入存储实例或获取函数，可使用内存、文件、Cloudflare KV、Deno KV 等任意后端
+ */
+export class KeyValueRateLimitStore implements RateLimitStore {
+  constructor(private readonly store: KeyValueStore | (() => KeyValueStore)) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const store = typeof this.store === 'function' ? this.store() : this.store;
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+    const resetAt = windowStart + windowMs;
+    const storeKey = `ratelimit:${key}:${windowStart}`;
+
+    const count = ((await store.get<number>(storeKey)) || 0) + 1;
+    await store.set(storeKey, count, { expiresAt: new Date(resetAt) });
+
+    return { count, resetAt };
+  }
+}
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;  // 不指定时由 TEMPMAILHUB_RATE_LIMIT_STORE 决定
+}
+
+// 默认使用实例内存计数；Workers / 多实例部署可切换到共享存储
+const memoryStore = new KeyValueRateLimitStore(new MemoryKeyValueStore());
+const sharedStore = new KeyValueRateLimitStore(() => getStorage());
+
+/**
+ * 创建入站限流中间件
+ * 请求携带有效 API Key 时按密钥计数（密钥可配置自己的 rateLimit），否则按客户端 IP 计数，
+ * 默认值来自 security.rateLimit，可用环境变量覆盖：
+ * - TEMPMAILHUB_RATE_LIMIT_ENABLED：true / false
+ * - TEMPMAILHUB_RATE_LIMIT_REQUESTS：窗口内允许的请求数
+ * - TEMPMAILHUB_RATE_LIMIT_WINDOW：窗口长度（秒）
+ * - TEMPMAILHUB_RATE_LIMIT_STORE：memory（默认）或 shared（使用配置的共享存储）
+ * - TEMPMAILHUB_TRUST_PROXY：Node.js 部署在反向代理之后时设为 true，按 X-Forwarded-For 识别客户端
+ */
+export function createRateLimitMiddleware(options: RateLimitOptions = {}) {
+  return async (c: Context, next: Next) => {
+    const defaults = configManager.getConfig().security.rateLimit;
+    const enabledEnv = getEnv(c, 'TEMPMAILHUB_RATE_LIMIT_ENABLED');
+    const enabled = enabledEnv !== undefined ? enabledEnv.toLowerCase() === 'true' : defaults?.enabled ?? false;
+
+    if (!enabled) {
+      return next();
+    }
+
+    const client = await getClient(c);
+    const limit = client.rateLimit?.requests ??
+      parsePositiveInt(getEnv(c, 'TEMPMAILHUB_RATE_LIMIT_REQUESTS')) ?? defaults?.requests ?? 100;
+    const window = client.rateLimit?.window ??
+      parsePositiveInt(getEnv(c, 'TEMPMAILHUB_RATE_LIMIT_WINDOW')) ?? defaults?.window ?? 60;
+
+    const store = options.store ||
+      (getEnv(c, 'TEMPMAILHUB_RATE_LIMIT_STORE')?.toLowerCase() === 'shared' ? sharedStore : memoryStore);
+
+    let hit: RateLimitHit;
+    try {
+      hit = await store.hit(client.key, window * 1000);
+    } catch (error) {
+      // 计数存储不可用时放行，避免限流器拖垮整个服务
+      logger.warn('Rate limit store error, request allowed', { error });
+      return next();
+    }
+
+    const remaining = Math.max(0, limit - hit.count);
+    const reset = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+    c.header('RateLimit-Limit', String(limit));
+    c.header('RateLimit-Remaining', String(remaining));
+    c.header('RateLimit-Reset', String(reset));
+    c.header('RateLimit-Policy', `${limit};w=${window}`);
+
+    if (hit.count > limit) {
+      return sendError(c, 'rate_limited', `Too many requests. Limit is ${limit} requests per ${window}s, retry after ${reset}s.`, {
+        retryAfter: reset
+      });
+    }
+
+    return next();
+  };
+}
+
+/**
+ * 限流计数键：认证通过时使用 API Key 的 id 及其限流配置，否则使用客户端 IP
+ */
+async function getClient(c: Context): Promise<{ key: string; rateLimit?: { requests: number; window: number } }> {
+  const token = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (token) {
+    const result = await apiKeyRegistry.authenticate(c, token);
+    if (result.ok) {
+      return { key: `key:${result.identity.id}`, rateLimit: result.identity.rateLimit };
+    }
+  }
+
+  return { key: `ip:${getClientIp(c)}` };
+}
+
+export function getClientIp(c: Context): string {
+  // @hono/node-server 通过 c.env.incoming 暴露原始连接；直接对外时代理头可以伪造，
+  // 只有设置 TEMPMAILHUB_TRUST_PROXY=true（部署在反向代理之后）才读取代理头
+  const remoteAddress = (c.env as any)?.incoming?.socket?.remoteAddress;
+  if (typeof remoteAddress === 'string' && getEnv(c, 'TEMPMAILHUB_TRUST_PROXY')?.toLowerCase() !== 'true') {
+    return remoteAddress;
+  }
+
+  // Workers、Vercel、Netlify、Deno Deploy 等平台会覆盖这些请求头
+  const forwarded = c.req.header('CF-Connecting-IP') ||
+    c.req.header('X-Real-IP') ||
+    c.req.header('X-Forwarded-For')?.split(',')[0];
+  if (forwarded?.trim()) {
+    return forwarded.trim();
+  }
+
+  return typeof remoteAddress === 'string' ? remoteAddress : 'unknown';
+}
+
+function parsePositiveInt(value?: string): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return parsed > 0 ? parsed : undefined;
+}
@@ -0,0 +1,55 @@
+import type { Context, Next } from 'hono';
+import type { RequestContext } from '../types/index.js';
+import { createLogger, logManager } from '../utils/logger.js';
+import { tracer } from '../utils/tracing.js';
+import { generateId } from '../utils/helpers.js';
+import { getClientIp } from './rate-limit.js';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    requestContext: RequestContext;  // 请求标识等信息，日志中通过 requestId 关联
+  }
+}
+
+// 沿用调用方传入的 X-Request-ID 时限制格式，避免日志注入
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const logger = createLogger('http');
+
+/**
+ * 创建请求上下文中间件
+ * 生成（或沿用请求头中的）X-Request-ID 并在响应头中返回，请求处理期间输出的日志都带 requestId；
+ * 请求结束后输出一条访问日志
+ */
+export function createRequestContextMiddleware() {
+  return async (c: Context, next: Next) => {
+    logManager.configure(c);
+
+    const incoming = c.req.header('X-Request-ID');
+    const context: RequestContext = {
+      requestId: incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : generateId(),
+      userAgent: c.req.header('User-Agent'),
+      ip: getClientIp(c),
+      traceId: tracer.activeSpan()?.context.traceId,
+      timestamp: new Date()
+    };
+    c.set('requestContext', context);
+    c.header('X-Request-ID', context.requestId);
+
+    await logManager.runWithContext(context, async () => {
+      await next();
+
+      // 异常本身由 app.onError 记录
+      const level = c.res.status >= 500 ? 'error' : 'info';
+      logger[level]('Request completed', {
+        method: c.req.method,
+        path: c.req.path,
+        status: c.res.status,
+        durationMs: Date.now() - context.timestamp.getTime(),
+        ip: context.ip,
+        userAgent: context.userAgent,
+        caller: c.get('apiKey')?.id  // API Key 的 id（不是密钥本身）
+      });
+    });
+  };
+}
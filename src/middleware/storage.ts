@@ -0,0 +1,13 @@
+import type { Context, Next } from 'hono';
+import { configureStorage } from '../storage/index.js';
+
+/**
+ * 创建存储初始化中间件
+ * Workers 的 KV 绑定只能在请求上下文中获取，因此在第一次请求时选择存储后端
+ */
+export function createStorageMiddleware() {
+  return async (c: Context, next: Next) => {
+    await configureStorage(c);
+    return next();
+  };
+}
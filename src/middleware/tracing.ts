@@ -0,0 +1,48 @@
+import type { Context, Next } from 'hono';
+import { tracer, SpanKind, SpanStatusCode, parseTraceparent, formatTraceparent } from '../utils/tracing.js';
+
+/**
+ * 创建链路追踪中间件
+ * 为每个请求创建服务端 span，沿用请求中 traceparent 的 trace，并在响应头中返回本次请求的 traceparent
+ */
+export function createTracingMiddleware() {
+  return async (c: Context, next: Next) => {
+    tracer.configure(c);
+    if (!tracer.enabled) {
+      return next();
+    }
+
+    await tracer.withSpan(c.req.method, {
+      kind: SpanKind.SERVER,
+      parent: parseTraceparent(c.req.header('traceparent')),
+      attributes: {
+        'http.request.method': c.req.method,
+        'url.path': c.req.path
+      }
+    }, async span => {
+      c.header('traceparent', formatTraceparent(span.context));
+      await next();
+
+      // 按路由模式命名（未匹配路由时只有请求方法），避免 span 名称中出现实际路径
+      const route = c.req.matchedRoutes[c.req.routeIndex]?.path;
+      if (route && route !== '*' && route !== '/*') {
+        span.updateName(`${c.req.method} ${route}`).setAttribute('http.route', route);
+      }
+      span.setAttribute('http.response.status_code', c.res.status);
+      if (c.res.status >= 500) {
+        span.setStatus(SpanStatusCode.ERROR);
+      }
+      // 路由中捕获后返回 500 的异常
+      if (c.error) {
+        span.recordException(c.error);
+      }
+    });
+
+    // Workers 在响应返回后会结束执行，需要通过 waitUntil 完成导出
+    try {
+      c.executionCtx.waitUntil(tracer.flush());
+    } catch {
+      // 非 Workers 环境由导出器定时发送
+    }
+  };
+}
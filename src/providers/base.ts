@@ -0,0 +1,436 @@
+import type { IMailProvider } from '../interfaces/mail-provider.js';
+import type {
+  EmailMessage,
+  CreateEmailRequest,
+  CreateEmailResponse,
+  EmailListQuery,
+  MailboxCredentials
+} from '../types/email.js';
+import type {
+  ChannelConfiguration,
+  ChannelHealth,
+  ChannelStats,
+  ChannelResponse,
+  ChannelResponseMetadata,
+  ChannelCapabilities,
+  ChannelError,
+  ChannelRateLimitStatus
+} from '../types/channel.js';
+import { ChannelStatus, ChannelErrorType } from '../types/channel.js';
+import { generateId, delay } from '../utils/helpers.js';
+import { TokenBucket } from '../utils/token-bucket.js';
+import { metricsService } from '../services/metrics-service.js';
+import type { ProviderOperation } from '../services/metrics-service.js';
+import { tracer, SpanStatusCode } from '../utils/tracing.js';
+import { createLogger } from '../utils/logger.js';
+import type { Logger } from '../utils/logger.js';
+
+// 健康检查结果的缓存时间
+const HEALTH_CACHE_TTL = 5 * 60 * 1000;
+// 本地限流时最多排队等待的时间，超过则直接拒绝
+const RATE_LIMIT_MAX_WAIT = 2000;
+
+interface ConnectionTestResult {
+  success: boolean;
+  error?: string;
+  responseTime: number;
+  testedAt: Date;
+}
+
+/**
+ * 解析 Retry-After 头（秒数或 HTTP 日期），返回等待的秒数
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = /^\d+$/.test(value.trim()) ? Number(value) : Math.ceil((Date.parse(value) - Date.now()) / 1000);
+  return Number.isFinite(seconds) ? Math.max(0, seconds) : undefined;
+}
+
+/**
+ * 按渠道限流配置创建令牌桶，未配置时不限流
+ */
+function createLimiter({ rateLimit }: ChannelConfiguration): TokenBucket | null {
+  return rateLimit && rateLimit.requests > 0 && rateLimit.window > 0
+    ? new TokenBucket(rateLimit.requests, rateLimit.window)
+    : null;
+}
+
+/**
+ * 邮件提供者基类
+ * 统一处理指标、耗时、错误分类、健康检查缓存以及列表的过滤和分页，
+ * 具体渠道只需实现 doCreate / doList / doTestConnection，列表不含完整内容时再实现 doGet
+ */
+export abstract class BaseMailProvider implements IMailProvider {
+  abstract readonly name: string;
+  abstract readonly capabilities: ChannelCapabilities;
+
+  private connectionTestResult: ConnectionTestResult | null = null;
+  private connectionTesting: Promise<void> | null = null;
+  private limiter: TokenBucket | null;
+
+  constructor(public config: ChannelConfiguration) {
+    this.limiter = createLimiter(config);
+  }
+
+  async initialize(config: ChannelConfiguration): Promise<void> {}
+
+  /**
+   * 应用新的渠道配置（超时、重试、限流等），限流参数变化时重建令牌桶
+   */
+  reconfigure(config: ChannelConfiguration): void {
+    const previous = this.config.rateLimit;
+    this.config = config;
+    if (previous?.requests !== config.rateLimit?.requests || previous?.window !== config.rateLimit?.window) {
+      this.limiter = createLimiter(config);
+    }
+  }
+
+  /**
+   * 创建邮箱
+   */
+  protected abstract doCreate(request: CreateEmailRequest): Promise<CreateEmailResponse>;
+
+  /**
+   * 获取收件箱中的全部邮件，过滤和分页由基类处理
+   */
+  protected abstract doList(query: EmailListQuery): Promise<EmailMessage[]>;
+
+  /**
+   * 测试渠道是否可用
+   */
+  protected abstract doTestConnection(): Promise<boolean>;
+
+  /**
+   * 获取单封邮件，默认从列表中查找（适用于列表已包含完整内容的渠道）
+   */
+  protected async doGet(emailAddress: string, emailId: string, accessToken?: string, credentials?: MailboxCredentials): Promise<EmailMessage> {
+    const emails = await this.doList({ address: emailAddress, accessToken, credentials });
+    const email = emails.find(msg => msg.id === emailId);
+    if (!email) {
+      throw this.createError(ChannelErrorType.API_ERROR, `Email with ID ${emailId} not found`, 404);
+    }
+    return email;
+  }
+
+  /**
+   * 首次连接测试前的准备工作（如加载域名列表）
+   */
+  protected async prepare(): Promise<void> {}
+
+  /**
+   * 渠道日志（模块名 providers.<渠道名>）
+   */
+  protected get logger(): Logger {
+    return createLogger(`providers.${this.name}`);
+  }
+
+  /**
+   * 上游服务地址，配置了 baseUrl 时使用配置值
+   */
+  protected resolveBaseUrl(defaultUrl: string): string {
+    return this.config.baseUrl ? this.config.baseUrl.replace(/\/+$/, '') : defaultUrl;
+  }
+
+  async createEmail(request: CreateEmailRequest): Promise<ChannelResponse<CreateEmailResponse>> {
+    return this.execute('create', () => this.createWithAllowedDomains(request));
+  }
+
+  /**
+   * 配置了允许的域名时，只接受列表内的域名；支持指定域名的渠道未指定时从列表中随机选择
+   * 不能指定域名的渠道无法保证新邮箱在列表内，在访问上游之前直接拒绝
+   */
+  private async createWithAllowedDomains(request: CreateEmailRequest): Promise<CreateEmailResponse> {
+    const allowed = this.config.domains?.map(domain => domain.toLowerCase());
+    if (!allowed || allowed.length === 0) {
+      return this.doCreate(request);
+    }
+
+    if (!this.capabilities.customDomains) {
+      throw this.createError(
+        ChannelErrorType.CONFIGURATION_ERROR,
+        `${this.name} cannot choose the mailbox domain, so its domains setting cannot be honored`
+      );
+    }
+
+    if (request.domain && !allowed.includes(request.domain.toLowerCase())) {
+      throw this.createError(
+        ChannelErrorType.CONFIGURATION_ERROR,
+        `Domain ${request.domain} is not allowed for ${this.name}. Allowed domains: ${allowed.join(', ')}`
+      );
+    }
+
+    return this.doCreate({ ...request, domain: request.domain || allowed[Math.floor(Math.random() * allowed.length)] });
+  }
+
+  async getEmails(query: EmailListQuery): Promise<ChannelResponse<EmailMessage[]>> {
+    return this.execute('list', async () => this.applyQuery(await this.doList(query), query));
+  }
+
+  async getEmailContent(emailAddress: string, emailId: string, accessToken?: string, credentials?: MailboxCredentials): Promise<ChannelResponse<EmailMessage>> {
+    return this.execute('get', () => this.doGet(emailAddress, emailId, accessToken, credentials));
+  }
+
+  async getHealth(): Promise<ChannelHealth> {
+    const cached = this.connectionTestResult;
+    if (!cached || Date.now() - cached.testedAt.getTime() > HEALTH_CACHE_TTL) {
+      await this.refreshConnectionTest();
+    }
+
+    const testResult = this.connectionTestResult || { success: false, error: 'Not tested yet', responseTime: 0, testedAt: new Date() };
+    const stats = this.getStats();
+
+    return {
+      status: testResult.success ? ChannelStatus.ACTIVE : ChannelStatus.ERROR,
+      lastChecked: testResult.testedAt,
+      responseTime: testResult.responseTime,
+      errorCount: stats.failedRequests,
+      successRate: stats.totalRequests > 0 ?
+        (stats.successfulRequests / stats.totalRequests) * 100 : 0,
+      lastError: testResult.error,
+      uptime: stats.totalRequests > 0 ?
+        (stats.successfulRequests / stats.totalRequests) * 100 : 100,
+      rateLimit: this.getRateLimitStatus()
+    };
+  }
+
+  /**
+   * 统计信息，由指标数据计算
+   */
+  getStats(): ChannelStats {
+    return metricsService.getProviderStats(this.name);
+  }
+
+  getRateLimitStatus(): ChannelRateLimitStatus | undefined {
+    if (!this.limiter) {
+      return undefined;
+    }
+    return {
+      limit: this.config.rateLimit.requests,
+      remaining: this.limiter.remaining,
+      retryAfter: Math.ceil(this.limiter.waitTime() / 1000)
+    };
+  }
+
+  async testConnection(): Promise<ChannelResponse<boolean>> {
+    const startTime = Date.now();
+
+    try {
+      const ok = await this.doTestConnection();
+      return {
+        success: ok,
+        data: ok,
+        metadata: this.createMetadata(startTime)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.createError(
+          ChannelErrorType.NETWORK_ERROR,
+          error instanceof Error ? error.message : String(error)
+        ),
+        metadata: this.createMetadata(startTime)
+      };
+    }
+  }
+
+  /**
+   * 懒加载连接测试 - 只在第一次使用时执行，结果会被缓存
+   */
+  protected async ensureConnectionTested(): Promise<void> {
+    if (!this.connectionTestResult) {
+      await this.refreshConnectionTest();
+    }
+  }
+
+  /**
+   * 执行渠道操作，统一处理本地限流、记录指标和 span、耗时并包装响应
+   */
+  protected execute<T>(operationName: ProviderOperation, operation: () => Promise<T>): Promise<ChannelResponse<T>> {
+    return tracer.withSpan(`${this.name}.${operationName}`, {
+      attributes: {
+        'tempmailhub.provider': this.name,
+        'tempmailhub.operation': operationName
+      }
+    }, async span => {
+      const startTime = Date.now();
+
+      // 被本地限流拒绝的调用没有访问上游，单独记为 throttled
+      const limited = await this.acquireRateLimit();
+      if (limited) {
+        metricsService.recordProviderCall(this.name, operationName, 'throttled', Date.now() - startTime);
+        span.setAttributes({ 'tempmailhub.throttled': true, 'tempmailhub.error_type': limited.type })
+          .setStatus(SpanStatusCode.ERROR, limited.message);
+        return {
+          success: false,
+          error: limited,
+          metadata: { ...this.createMetadata(startTime), throttled: true }
+        };
+      }
+
+      // 计时从实际访问上游开始，不包含限流排队的时间
+      const callStart = Date.now();
+      try {
+        const data = await operation();
+        metricsService.recordProviderCall(this.name, operationName, 'success', Date.now() - callStart);
+
+        return {
+          success: true,
+          data,
+          metadata: this.createMetadata(startTime)
+        };
+      } catch (error) {
+        const channelError = this.classifyError(error);
+        metricsService.recordProviderCall(this.name, operationName, channelError.type, Date.now() - callStart);
+        span.setAttribute('tempmailhub.error_type', channelError.type).recordException(channelError);
+
+        return {
+          success: false,
+          error: channelError,
+          metadata: this.createMetadata(startTime)
+        };
+      }
+    });
+  }
+
+  /**
+   * 应用未读、时间过滤和分页
+   */
+  protected applyQuery(emails: EmailMessage[], query: EmailListQuery): EmailMessage[] {
+    let filteredEmails = emails;
+    if (query.unreadOnly) {
+      filteredEmails = filteredEmails.filter(email => !email.isRead);
+    }
+    if (query.since) {
+      filteredEmails = filteredEmails.filter(email => email.receivedAt >= query.since!);
+    }
+
+    const limit = query.limit || 20;
+    const offset = query.offset || 0;
+    return filteredEmails.slice(offset, offset + limit);
+  }
+
+  protected createError(type: ChannelErrorType, message: string, statusCode?: number): ChannelError {
+    const error = new Error(message) as ChannelError;
+    error.type = type;
+    error.channelName = this.name;
+    error.statusCode = statusCode;
+    error.retryable = type !== ChannelErrorType.AUTHENTICATION_ERROR && type !== ChannelErrorType.CONFIGURATION_ERROR;
+    error.timestamp = new Date();
+    return error;
+  }
+
+  /**
+   * 根据上游 HTTP 状态码创建对应类型的错误，限流和暂不可用时读取上游的 Retry-After
+   */
+  protected createStatusError(statusCode: number, message: string, headers?: Headers): ChannelError {
+    let type = ChannelErrorType.API_ERROR;
+    if (statusCode === 401 || statusCode === 403) {
+      type = ChannelErrorType.AUTHENTICATION_ERROR;
+    } else if (statusCode === 429) {
+      type = ChannelErrorType.RATE_LIMIT_ERROR;
+    } else if (statusCode === 408 || statusCode === 504) {
+      type = ChannelErrorType.TIMEOUT_ERROR;
+    }
+    const error = this.createError(type, message, statusCode);
+    if (statusCode === 429 || statusCode === 503) {
+      error.retryAfter = parseRetryAfter(headers?.get('Retry-After'));
+    }
+    return error;
+  }
+
+  /**
+   * 将任意异常归类为 ChannelError
+   */
+  protected classifyError(error: unknown): ChannelError {
+    if (error instanceof Error && 'type' in error && 'channelName' in error) {
+      return error as ChannelError;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+      return this.createError(ChannelErrorType.TIMEOUT_ERROR, `Request timed out: ${message}`);
+    }
+    if (error instanceof TypeError) {
+      // fetch 在网络失败时抛出 TypeError
+      return this.createError(ChannelErrorType.NETWORK_ERROR, message);
+    }
+    return this.createError(ChannelErrorType.UNKNOWN_ERROR, message);
+  }
+
+  /**
+   * 消耗一个限流令牌，短暂等待后仍无额度则返回限流错误
+   */
+  private async acquireRateLimit(): Promise<ChannelError | null> {
+    if (!this.limiter) {
+      return null;
+    }
+
+    let wait = this.limiter.take();
+    if (wait > 0 && wait <= RATE_LIMIT_MAX_WAIT) {
+      await delay(wait);
+      wait = this.limiter.take();
+    }
+    if (wait === 0) {
+      return null;
+    }
+
+    const retryAfter = Math.ceil(wait / 1000);
+    const error = this.createError(
+      ChannelErrorType.RATE_LIMIT_ERROR,
+      `Rate limit of ${this.config.rateLimit.requests} requests per ${this.config.rateLimit.window}s exceeded for ${this.name}, retry after ${retryAfter}s`
+    );
+    error.retryAfter = retryAfter;
+    return error;
+  }
+
+  private createMetadata(startTime: number): ChannelResponseMetadata {
+    return {
+      provider: this.name,
+      responseTime: Date.now() - startTime,
+      requestId: generateId()
+    };
+  }
+
+  /**
+   * 执行准备工作和连接测试，并发调用共享同一次测试
+   */
+  private refreshConnectionTest(): Promise<void> {
+    if (!this.connectionTesting) {
+      this.connectionTesting = (async () => {
+        try {
+          this.logger.debug('Testing connection');
+          await this.prepare();
+
+          const healthCheck = await this.testConnection();
+          this.connectionTestResult = {
+            success: healthCheck.success,
+            error: healthCheck.error?.message,
+            responseTime: healthCheck.metadata.responseTime,
+            testedAt: new Date()
+          };
+          metricsService.recordHealthCheck(this.name, healthCheck.success, healthCheck.metadata.responseTime);
+
+          if (!healthCheck.success) {
+            this.logger.warn('Connection test failed', { error: healthCheck.error?.message });
+          } else {
+            this.logger.info('Connection test passed', { responseTime: healthCheck.metadata.responseTime });
+          }
+        } catch (error) {
+          this.connectionTestResult = {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            responseTime: 0,
+            testedAt: new Date()
+          };
+          metricsService.recordHealthCheck(this.name, false, 0);
+          this.logger.warn('Connection test error', { error: this.connectionTestResult.error });
+        } finally {
+          this.connectionTesting = null;
+        }
+      })();
+    }
+    return this.connectionTesting;
+  }
+}
@@ -1,23 +1,16 @@
-import type { IMailProvider } from '../interfaces/mail-provider.js';
 import type {
-  EmailAddress,
   EmailMessage,
   CreateEmailRequest,
   CreateEmailResponse,
   EmailListQuery,
-  EmailContact
+  MailboxCredentials
 } from '../types/email.js';
-import type {
-  ChannelConfiguration,
-  ChannelHealth,
-  ChannelStats,
-  ChannelResponse,
-  ChannelCapabilities,
-  ChannelError
-} from '../types/channel.js';
-import { ChannelStatus, ChannelErrorType } from '../types/channel.js';
+import type { ChannelCapabilities, ChannelConfiguration, ChannelResponse } from '../types/channel.js';
+import { ChannelErrorType } from '../types/channel.js';
 import { httpClient } from '../utils/http-client.js';
-import { generateId, generateEmailPrefix, parseDate } from '../utils/helpers.js';
+import { sessionStore } from '../storage/index.js';
+import { generateEmailPrefix } from '../utils/helpers.js';
+import { BaseMailProvider } from './base.js';
 
 /**
  * ChatTempMail API 响应类型
@@ -74,7 +67,7 @@ interface ChatTempMailMessageDetailResponse {
 /**
  * ChatTempMail 提供者实现
  */
-export class ChatTempMailProvider implements IMailProvider {
+export class ChatTempMailProvider extends BaseMailProvider {
   readonly name = 'chattempmail';
   
   readonly capabilities: ChannelCapabilities = {
@@ -84,332 +77,150 @@ export class ChatTempMailProvider implements IMailProvider {
     customDomains: true,
     customPrefix: true,
     emailExpiration: true,
+    maxExpirationMinutes: 3 * 24 * 60, // 上游最长保留 3 天
     realTimeUpdates: true, // 支持webhook
     attachmentSupport: false
   };
 
-  private stats: ChannelStats = {
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    averageResponseTime: 0,
-    errorsToday: 0,
-    requestsToday: 0
-  };
-
-  private baseUrl = 'https://chat-tempmail.com/api';
+  private get baseUrl(): string {
+    return this.resolveBaseUrl('https://chat-tempmail.com/api');
+  }
   private availableDomains: string[] = [];
-  private emailIds = new Map<string, string>(); // email -> emailId
-  private connectionTested = false;
-  private connectionTestResult: { success: boolean; error?: string; testedAt: Date } | null = null;
-
-  constructor(public readonly config: ChannelConfiguration) {}
 
   async initialize(config: ChannelConfiguration): Promise<void> {
-    console.log('ChatTempMail provider initialized (domains and connection will be loaded on first use)');
+    this.logger.debug('Initialized, domains and connection will be loaded on first use');
   }
 
   /**
-   * 懒加载连接测试和域名获取 - 只在第一次使用时执行，结果会被缓存
+   * 连接测试前获取可用域名
    */
-  private async ensureConnectionTested(): Promise<void> {
-    if (this.connectionTested) {
-      return;
-    }
-
-    try {
-      console.log('Testing ChatTempMail connection and loading domains...');
-      
-      // 获取可用域名
-      await this.fetchAvailableDomains();
-      
-      // 测试连接
-      const healthCheck = await this.testConnection();
-      this.connectionTestResult = {
-        success: healthCheck.success,
-        error: healthCheck.error?.message,
-        testedAt: new Date()
-      };
-      
-      if (!healthCheck.success) {
-        console.warn(`ChatTempMail connection test failed: ${healthCheck.error?.message}`);
-      } else {
-        console.log(`ChatTempMail connection test passed, loaded ${this.availableDomains.length} domains`);
-      }
-    } catch (error) {
-      this.connectionTestResult = {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        testedAt: new Date()
-      };
-      console.warn(`ChatTempMail connection test error: ${this.connectionTestResult.error}`);
-    } finally {
-      this.connectionTested = true;
-    }
+  protected async prepare(): Promise<void> {
+    await this.fetchAvailableDomains();
   }
 
-  async createEmail(request: CreateEmailRequest): Promise<ChannelResponse<CreateEmailResponse>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
+  protected async doCreate(request: CreateEmailRequest): Promise<CreateEmailResponse> {
+    // 确保连接已测试
+    await this.ensureConnectionTested();
 
-      // 确保连接已测试
-      await this.ensureConnectionTested();
+    const prefix = request.prefix || generateEmailPrefix(10);
+    const domain = request.domain || this.getRandomDomain();
+    
+    if (!domain) {
+      throw this.createError(
+        ChannelErrorType.API_ERROR,
+        'No available domains found'
+      );
+    }
 
-      const prefix = request.prefix || generateEmailPrefix(10);
-      const domain = request.domain || this.getRandomDomain();
-      
-      if (!domain) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          'No available domains found'
-        );
+    // 设置过期时间（毫秒）
+    const expiryTime = request.expirationMinutes 
+      ? request.expirationMinutes * 60 * 1000 
+      : 3600000; // 默认1小时
+
+    const createResponse = await httpClient.post<ChatTempMailCreateResponse>(
+      `${this.baseUrl}/emails/generate`,
+      {
+        name: prefix,
+        expiryTime,
+        domain
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': this.config.apiKey || ''
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries
       }
+    );
 
-      // 设置过期时间（毫秒）
-      const expiryTime = request.expirationMinutes 
-        ? request.expirationMinutes * 60 * 1000 
-        : 3600000; // 默认1小时
-
-      const createResponse = await httpClient.post<ChatTempMailCreateResponse>(
-        `${this.baseUrl}/emails/generate`,
-        {
-          name: prefix,
-          expiryTime,
-          domain
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-API-Key': this.config.apiKey || ''
-          },
-          timeout: this.config.timeout,
-          retries: this.config.retries
-        }
+    if (!createResponse.ok) {
+      throw this.createStatusError(
+        createResponse.status,
+        `Failed to create email: ${createResponse.status}`,
+        createResponse.headers
       );
+    }
 
-      if (!createResponse.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `Failed to create email: ${createResponse.status}`,
-          createResponse.status
-        );
-      }
-
-      // 保存emailId映射
-      this.emailIds.set(createResponse.data.email, createResponse.data.id);
-
-      const result: CreateEmailResponse = {
-        address: createResponse.data.email,
-        domain,
-        username: prefix,
-        provider: this.name,
-        expiresAt: new Date(Date.now() + expiryTime)
-      };
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: result,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+    const result: CreateEmailResponse = {
+      address: createResponse.data.email,
+      domain,
+      username: prefix,
+      provider: this.name,
+      expiresAt: new Date(Date.now() + expiryTime),
+      credentials: { emailId: createResponse.data.id }
+    };
 
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
+    return result;
   }
 
-  async getEmails(query: EmailListQuery): Promise<ChannelResponse<EmailMessage[]>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
+  protected async doList(query: EmailListQuery): Promise<EmailMessage[]> {
+    // 确保连接已测试
+    await this.ensureConnectionTested();
 
-      // 确保连接已测试
-      await this.ensureConnectionTested();
+    const emailId = await this.resolveEmailId(query.address, query.credentials);
 
-      // 获取emailId
-      const emailId = this.emailIds.get(query.address);
-      if (!emailId) {
-        throw this.createError(
-          ChannelErrorType.AUTHENTICATION_ERROR,
-          'Email address not found. Please ensure email was created through this service.'
-        );
+    const response = await httpClient.get<ChatTempMailMessageListResponse>(
+      `${this.baseUrl}/emails/${emailId}`,
+      {
+        headers: {
+          'X-API-Key': this.config.apiKey || ''
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries
       }
+    );
 
-      const response = await httpClient.get<ChatTempMailMessageListResponse>(
-        `${this.baseUrl}/emails/${emailId}`,
-        {
-          headers: {
-            'X-API-Key': this.config.apiKey || ''
-          },
-          timeout: this.config.timeout,
-          retries: this.config.retries
-        }
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `ChatTempMail API returned ${response.status}: ${response.statusText}`,
+        response.headers
       );
-
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `ChatTempMail API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const messages = response.data.messages || [];
-      const emails: EmailMessage[] = messages.map(msg => this.mapToEmailMessage(msg, query.address));
-
-      // 应用过滤器
-      let filteredEmails = emails;
-      if (query.unreadOnly) {
-        filteredEmails = filteredEmails.filter(email => !email.isRead);
-      }
-      if (query.since) {
-        filteredEmails = filteredEmails.filter(email => email.receivedAt >= query.since!);
-      }
-
-      // 应用分页
-      const limit = query.limit || 20;
-      const offset = query.offset || 0;
-      const paginatedEmails = filteredEmails.slice(offset, offset + limit);
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: paginatedEmails,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
     }
+
+    const messages = response.data.messages || [];
+    return messages.map(msg => this.mapToEmailMessage(msg, query.address));
   }
 
-  async getEmailContent(emailAddress: string, emailId: string, accessToken?: string): Promise<ChannelResponse<EmailMessage>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
+  protected async doGet(emailAddress: string, emailId: string, accessToken?: string, credentials?: MailboxCredentials): Promise<EmailMessage> {
+    // 确保连接已测试
+    await this.ensureConnectionTested();
 
-      // 确保连接已测试
-      await this.ensureConnectionTested();
+    const chatEmailId = await this.resolveEmailId(emailAddress, credentials);
 
-      // 获取emailId
-      const chatEmailId = this.emailIds.get(emailAddress);
-      if (!chatEmailId) {
-        throw this.createError(
-          ChannelErrorType.AUTHENTICATION_ERROR,
-          'Email address not found. Please ensure email was created through this service.'
-        );
+    const response = await httpClient.get<ChatTempMailMessageDetailResponse>(
+      `${this.baseUrl}/emails/${chatEmailId}/${emailId}`,
+      {
+        headers: {
+          'X-API-Key': this.config.apiKey || ''
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries
       }
+    );
 
-      const response = await httpClient.get<ChatTempMailMessageDetailResponse>(
-        `${this.baseUrl}/emails/${chatEmailId}/${emailId}`,
-        {
-          headers: {
-            'X-API-Key': this.config.apiKey || ''
-          },
-          timeout: this.config.timeout,
-          retries: this.config.retries
-        }
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `ChatTempMail API returned ${response.status}: ${response.statusText}`,
+        response.headers
       );
-
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `ChatTempMail API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const email = this.mapDetailToEmailMessage(response.data.message, emailAddress);
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: email,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
     }
+
+    return this.mapDetailToEmailMessage(response.data.message, emailAddress);
   }
 
   async deleteEmail(emailAddress: string): Promise<ChannelResponse<boolean>> {
-    const emailId = this.emailIds.get(emailAddress);
-    
-    if (!emailId) {
-      return {
-        success: false,
-        error: this.createError(
+    return this.execute('delete', async () => {
+      const emailId = (await sessionStore.get(emailAddress))?.credentials.emailId;
+      if (!emailId) {
+        throw this.createError(
           ChannelErrorType.AUTHENTICATION_ERROR,
           'Email address not found'
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: 0,
-          requestId: generateId()
-        }
-      };
-    }
+        );
+      }
 
-    try {
       const response = await httpClient.delete(
         `${this.baseUrl}/emails/${emailId}`,
         {
@@ -422,93 +233,34 @@ export class ChatTempMailProvider implements IMailProvider {
       );
 
       if (response.ok) {
-        this.emailIds.delete(emailAddress);
+        await sessionStore.delete(emailAddress);
       }
-
-      return {
-        success: response.ok,
-        data: response.ok,
-        metadata: {
-          provider: this.name,
-          responseTime: 0,
-          requestId: generateId()
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: 0,
-          requestId: generateId()
-        }
-      };
-    }
+      return response.ok;
+    });
   }
 
-  async getHealth(): Promise<ChannelHealth> {
-    // 如果还没有测试过连接，现在测试一次
-    if (!this.connectionTested) {
-      await this.ensureConnectionTested();
-    }
-    
-    const testResult = this.connectionTestResult || { success: false, error: 'Not tested yet', testedAt: new Date() };
-    
-    return {
-      status: testResult.success ? ChannelStatus.ACTIVE : ChannelStatus.ERROR,
-      lastChecked: testResult.testedAt,
-      responseTime: 0, // 使用缓存结果，没有实时响应时间
-      errorCount: this.stats.failedRequests,
-      successRate: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 0,
-      lastError: testResult.error,
-      uptime: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 100
-    };
-  }
-
-  getStats(): ChannelStats {
-    return { ...this.stats };
+  protected async doTestConnection(): Promise<boolean> {
+    const response = await httpClient.get(`${this.baseUrl}/email/domains`, {
+      headers: {
+        'X-API-Key': this.config.apiKey || ''
+      },
+      timeout: this.config.timeout
+    });
+    return response.ok;
   }
 
-  async testConnection(): Promise<ChannelResponse<boolean>> {
-    const startTime = Date.now();
-    
-    try {
-      const response = await httpClient.get(`${this.baseUrl}/email/domains`, {
-        headers: {
-          'X-API-Key': this.config.apiKey || ''
-        },
-        timeout: this.config.timeout
-      });
-
-      return {
-        success: response.ok,
-        data: response.ok,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: this.createError(
-          ChannelErrorType.NETWORK_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+  /**
+   * 获取emailId（优先使用句柄中的凭据）
+   */
+  private async resolveEmailId(emailAddress: string, credentials?: MailboxCredentials): Promise<string> {
+    const emailId = credentials?.emailId || (await sessionStore.get(emailAddress))?.credentials.emailId;
+    if (!emailId) {
+      throw this.createError(
+        ChannelErrorType.AUTHENTICATION_ERROR,
+        'Email address not found. Please ensure email was created through this service.'
+      );
     }
+    return emailId;
   }
 
   private async fetchAvailableDomains(): Promise<void> {
@@ -583,31 +335,4 @@ export class ChatTempMailProvider implements IMailProvider {
       }
     };
   }
-
-  private createError(type: ChannelErrorType, message: string, statusCode?: number): ChannelError {
-    const error = new Error(message) as ChannelError;
-    error.type = type;
-    error.channelName = this.name;
-    error.statusCode = statusCode;
-    error.retryable = type !== ChannelErrorType.AUTHENTICATION_ERROR && type !== ChannelErrorType.CONFIGURATION_ERROR;
-    error.timestamp = new Date();
-    return error;
-  }
-
-  private updateStats(type: 'request' | 'success' | 'error', responseTime?: number): void {
-    this.stats.totalRequests++;
-    this.stats.requestsToday++;
-    this.stats.lastRequestTime = new Date();
-
-    if (type === 'success') {
-      this.stats.successfulRequests++;
-      if (responseTime) {
-        this.stats.averageResponseTime = 
-          (this.stats.averageResponseTime + responseTime) / 2;
-      }
-    } else if (type === 'error') {
-      this.stats.failedRequests++;
-      this.stats.errorsToday++;
-    }
-  }
 }
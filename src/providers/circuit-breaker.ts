@@ -0,0 +1,144 @@
+import type { ChannelError, ChannelResponse, CircuitSnapshot } from '../types/channel.js';
+import { ChannelErrorType, CircuitState } from '../types/channel.js';
+
+/**
+ * 熔断器参数（时间单位：毫秒）
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number;   // 连续失败多少次后熔断
+  cooldown: number;           // 熔断持续时间
+  rateLimitCooldown: number;  // 被上游限流时的熔断持续时间
+}
+
+// 表示渠道暂时不可用的错误类型
+const PROVIDER_FAILURE_TYPES = new Set<ChannelErrorType>([
+  ChannelErrorType.NETWORK_ERROR,
+  ChannelErrorType.TIMEOUT_ERROR,
+  ChannelErrorType.RATE_LIMIT_ERROR
+]);
+
+/**
+ * 判断错误是否说明渠道本身不可用（而不是请求参数或凭据有问题）
+ */
+export function isProviderFailure(error: ChannelError): boolean {
+  // 上游 5xx 也视为暂时不可用
+  return PROVIDER_FAILURE_TYPES.has(error.type) || (error.statusCode !== undefined && error.statusCode >= 500);
+}
+
+/**
+ * 单个渠道的熔断器
+ * 连续失败达到阈值或被上游限流时熔断，冷却结束后进入半开状态，
+ * 半开状态下只放行一个探测请求，成功则恢复，失败则重新熔断
+ */
+export class CircuitBreaker {
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private lastErrorType?: ChannelErrorType;
+  private openedAt = 0;
+  private retryAt = 0;
+  private probeStartedAt = 0;  // 半开状态下探测请求的开始时间，0 表示没有进行中的探测
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * 当前状态（熔断冷却结束后自动转为半开）
+   */
+  getState(): CircuitState {
+    if (this.state === CircuitState.OPEN && Date.now() >= this.retryAt) {
+      this.state = CircuitState.HALF_OPEN;
+    }
+    return this.state;
+  }
+
+  /**
+   * 是否允许参与渠道选择（半开状态下已有探测请求时不可用）
+   */
+  isAvailable(): boolean {
+    const state = this.getState();
+    return state === CircuitState.CLOSED || (state === CircuitState.HALF_OPEN && !this.isProbing());
+  }
+
+  /**
+   * 占用一次调用机会，半开状态下成功占用的请求即为探测请求
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) {
+      return false;
+    }
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.probeStartedAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * 是否因上游限流而熔断
+   */
+  isRateLimited(): boolean {
+    return this.getState() === CircuitState.OPEN && this.lastErrorType === ChannelErrorType.RATE_LIMIT_ERROR;
+  }
+
+  /**
+   * 放弃占用的调用机会（调用没有访问上游）
+   */
+  release(): void {
+    this.probeStartedAt = 0;
+  }
+
+  /**
+   * 记录一次渠道调用结果
+   */
+  record(response: ChannelResponse<unknown>): void {
+    this.probeStartedAt = 0;
+    if (response.success) {
+      this.recordSuccess();
+    } else if (response.error && isProviderFailure(response.error)) {
+      this.recordFailure(response.error.type, response.error.retryAfter);
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.lastErrorType = undefined;
+  }
+
+  /**
+   * @param retryAfter 限流错误给出的等待秒数，优先于默认的限流熔断时间
+   */
+  recordFailure(type: ChannelErrorType, retryAfter?: number): void {
+    this.consecutiveFailures++;
+    this.lastErrorType = type;
+
+    const state = this.getState();
+    if (type === ChannelErrorType.RATE_LIMIT_ERROR) {
+      this.open(retryAfter !== undefined ? retryAfter * 1000 : this.options.rateLimitCooldown);
+    } else if (state === CircuitState.HALF_OPEN || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.open(this.options.cooldown);
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    const state = this.getState();
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastErrorType: this.lastErrorType,
+      openedAt: state === CircuitState.CLOSED ? undefined : new Date(this.openedAt),
+      retryAt: state === CircuitState.OPEN ? new Date(this.retryAt) : undefined
+    };
+  }
+
+  /**
+   * 是否有进行中的探测请求，超过冷却时间仍未记录结果的探测视为丢失
+   */
+  private isProbing(): boolean {
+    return this.probeStartedAt > 0 && Date.now() - this.probeStartedAt < this.options.cooldown;
+  }
+
+  private open(cooldown: number): void {
+    this.state = CircuitState.OPEN;
+    this.openedAt = Date.now();
+    this.retryAt = this.openedAt + cooldown;
+  }
+}
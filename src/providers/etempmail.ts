@@ -1,23 +1,15 @@
-import type { IMailProvider } from '../interfaces/mail-provider.js';
 import type {
-  EmailAddress,
   EmailMessage,
   CreateEmailRequest,
   CreateEmailResponse,
-  EmailListQuery,
-  EmailContact
+  EmailListQuery
 } from '../types/email.js';
-import type {
-  ChannelConfiguration,
-  ChannelHealth,
-  ChannelStats,
-  ChannelResponse,
-  ChannelCapabilities,
-  ChannelError
-} from '../types/channel.js';
-import { ChannelStatus, ChannelErrorType } from '../types/channel.js';
+import type { ChannelCapabilities, ChannelConfiguration } from '../types/channel.js';
+import { ChannelErrorType } from '../types/channel.js';
 import { httpClient } from '../utils/http-client.js';
-import { generateId, parseDate, stripHtml } from '../utils/helpers.js';
+import { sessionStore } from '../storage/index.js';
+import { parseDate, stripHtml } from '../utils/helpers.js';
+import { BaseMailProvider } from './base.js';
 
 /**
  * EtempMail API 响应类型
@@ -39,7 +31,7 @@ interface EtempMailInboxMessage {
 /**
  * EtempMail 提供者实现
  */
-export class EtempMailProvider implements IMailProvider {
+export class EtempMailProvider extends BaseMailProvider {
   readonly name = 'etempmail';
   
   readonly capabilities: ChannelCapabilities = {
@@ -53,16 +45,9 @@ export class EtempMailProvider implements IMailProvider {
     attachmentSupport: false
   };
 
-  private stats: ChannelStats = {
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    averageResponseTime: 0,
-    errorsToday: 0,
-    requestsToday: 0
-  };
-
-  private baseUrl = 'https://etempmail.com';
+  private get baseUrl(): string {
+    return this.resolveBaseUrl('https://etempmail.com');
+  }
   private sessionId: string = '';
   
   // 支持的域名列表和对应的ID
@@ -81,293 +66,130 @@ export class EtempMailProvider implements IMailProvider {
     'beta.edu.pl': '18'
   };
 
-  constructor(public readonly config: ChannelConfiguration) {}
-
   async initialize(config: ChannelConfiguration): Promise<void> {
-    console.log('EtempMail provider initialized (server time and connection will be tested on first use)');
+    this.logger.debug('Initialized, server time and connection will be tested on first use');
   }
 
-  async createEmail(request: CreateEmailRequest): Promise<ChannelResponse<CreateEmailResponse>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
+  protected async doCreate(request: CreateEmailRequest): Promise<CreateEmailResponse> {
+    // 确保有会话
+    if (!this.sessionId) {
+      await this.getServerTime();
+    }
 
-      // 确保有会话
-      if (!this.sessionId) {
-        await this.getServerTime();
-      }
+    // 处理域名选择
+    if (request.domain && this.domainIdMapping[request.domain]) {
+      // 用户指定了域名
+      await this.changeEmailAddress(this.domainIdMapping[request.domain]);
+    } else if (!request.domain) {
+      // 用户没有指定域名，随机选择一个
+      const domainIds = Object.values(this.domainIdMapping);
+      const randomId = domainIds[Math.floor(Math.random() * domainIds.length)];
+      await this.changeEmailAddress(randomId);
+    }
 
-      // 处理域名选择
-      if (request.domain && this.domainIdMapping[request.domain]) {
-        // 用户指定了域名
-        await this.changeEmailAddress(this.domainIdMapping[request.domain]);
-      } else if (!request.domain) {
-        // 用户没有指定域名，随机选择一个
-        const domainIds = Object.values(this.domainIdMapping);
-        const randomId = domainIds[Math.floor(Math.random() * domainIds.length)];
-        await this.changeEmailAddress(randomId);
+    const response = await httpClient.post<EtempMailAddressResponse>(
+      `${this.baseUrl}/getEmailAddress`,
+      '',
+      {
+        headers: this.buildHeaders(this.sessionId),
+        timeout: this.config.timeout,
+        retries: this.config.retries
       }
+    );
 
-      const response = await httpClient.post<EtempMailAddressResponse>(
-        `${this.baseUrl}/getEmailAddress`,
-        '',
-        {
-          headers: {
-            'accept': '*/*',
-            'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
-            'content-length': '0',
-            'origin': this.baseUrl,
-            'referer': `${this.baseUrl}/`,
-            'x-requested-with': 'XMLHttpRequest',
-            'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36',
-            'cookie': `ci_session=${this.sessionId}`
-          },
-          timeout: this.config.timeout,
-          retries: this.config.retries
-        }
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `EtempMail API returned ${response.status}: ${response.statusText}`,
+        response.headers
       );
+    }
 
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `EtempMail API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const data = response.data;
-      if (!data.address) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          'Invalid response from EtempMail API: missing address'
-        );
-      }
-
-      const [username, domain] = data.address.split('@');
-      const creationTime = parseInt(data.creation_time) * 1000; // 转换为毫秒
-      const expiresAt = new Date(creationTime + 15 * 60 * 1000); // 15分钟后过期
-
-      const result: CreateEmailResponse = {
-        address: data.address,
-        domain,
-        username,
-        expiresAt,
-        provider: this.name,
-        recoveryKey: data.recover_key
-      };
+    const data = response.data;
+    if (!data.address) {
+      throw this.createError(
+        ChannelErrorType.API_ERROR,
+        'Invalid response from EtempMail API: missing address'
+      );
+    }
 
-      this.updateStats('success', Date.now() - startTime);
+    const [username, domain] = data.address.split('@');
+    const creationTime = parseInt(data.creation_time) * 1000; // 转换为毫秒
+    const expiresAt = new Date(creationTime + 15 * 60 * 1000); // 15分钟后过期
 
-      return {
-        success: true,
-        data: result,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+    const result: CreateEmailResponse = {
+      address: data.address,
+      domain,
+      username,
+      expiresAt,
+      provider: this.name,
+      recoveryKey: data.recover_key,
+      credentials: { sessionId: this.sessionId }
+    };
 
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
+    return result;
   }
 
-  async getEmails(query: EmailListQuery): Promise<ChannelResponse<EmailMessage[]>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
-
-      // 确保有会话
+  /**
+   * getInbox 接口已经包含完整内容，邮件详情使用基类的列表查找
+   */
+  protected async doList(query: EmailListQuery): Promise<EmailMessage[]> {
+    // 优先使用句柄或会话存储中该邮箱的会话，否则确保有会话
+    let sessionId = query.credentials?.sessionId || (await sessionStore.get(query.address))?.credentials.sessionId;
+    if (!sessionId) {
       if (!this.sessionId) {
         await this.getServerTime();
       }
-
-      const response = await httpClient.post<EtempMailInboxMessage[]>(
-        `${this.baseUrl}/getInbox`,
-        '',
-        {
-          headers: {
-            'accept': '*/*',
-            'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
-            'content-length': '0',
-            'origin': this.baseUrl,
-            'referer': `${this.baseUrl}/`,
-            'x-requested-with': 'XMLHttpRequest',
-            'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36',
-            'cookie': `ci_session=${this.sessionId}`
-          },
-          timeout: this.config.timeout,
-          retries: this.config.retries
-        }
-      );
-
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `EtempMail API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const messages = Array.isArray(response.data) ? response.data : [];
-      const emails: EmailMessage[] = messages.map((msg, index) => this.mapToEmailMessage(msg, query.address, index));
-
-      // 应用过滤器
-      let filteredEmails = emails;
-      if (query.unreadOnly) {
-        filteredEmails = filteredEmails.filter(email => !email.isRead);
-      }
-      if (query.since) {
-        filteredEmails = filteredEmails.filter(email => email.receivedAt >= query.since!);
-      }
-
-      // 应用分页
-      const limit = query.limit || 20;
-      const offset = query.offset || 0;
-      const paginatedEmails = filteredEmails.slice(offset, offset + limit);
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: paginatedEmails,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+      sessionId = this.sessionId;
     }
-  }
 
-  async getEmailContent(emailAddress: string, emailId: string, accessToken?: string): Promise<ChannelResponse<EmailMessage>> {
-    // EtempMail 的 getInbox 接口已经包含完整内容，所以直接从列表中查找
-    const emailsResponse = await this.getEmails({ address: emailAddress });
-    
-    if (!emailsResponse.success) {
-      return {
-        success: false,
-        error: emailsResponse.error,
-        metadata: emailsResponse.metadata
-      };
-    }
+    const response = await httpClient.post<EtempMailInboxMessage[]>(
+      `${this.baseUrl}/getInbox`,
+      '',
+      {
+        headers: this.buildHeaders(sessionId),
+        timeout: this.config.timeout,
+        retries: this.config.retries
+      }
+    );
 
-    const email = emailsResponse.data?.find(msg => msg.id === emailId);
-    if (!email) {
-      return {
-        success: false,
-        error: this.createError(ChannelErrorType.API_ERROR, `Email with ID ${emailId} not found`),
-        metadata: {
-          provider: this.name,
-          responseTime: 0,
-          requestId: generateId()
-        }
-      };
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `EtempMail API returned ${response.status}: ${response.statusText}`,
+        response.headers
+      );
     }
 
-    return {
-      success: true,
-      data: email,
-      metadata: {
-        provider: this.name,
-        responseTime: 0,
-        requestId: generateId()
-      }
-    };
+    const messages = Array.isArray(response.data) ? response.data : [];
+    return messages.map((msg, index) => this.mapToEmailMessage(msg, query.address, index));
   }
 
+  protected async doTestConnection(): Promise<boolean> {
+    const response = await httpClient.post(`${this.baseUrl}/getServerTime`, '', {
+      headers: {
+        'content-length': '0',
+        'origin': this.baseUrl,
+        'referer': `${this.baseUrl}/`
+      },
+      timeout: this.config.timeout
+    });
+    return response.ok;
+  }
 
-
-  async getHealth(): Promise<ChannelHealth> {
-    const testResult = await this.testConnection();
-    
+  private buildHeaders(sessionId: string): Record<string, string> {
     return {
-      status: testResult.success ? ChannelStatus.ACTIVE : ChannelStatus.ERROR,
-      lastChecked: new Date(),
-      responseTime: testResult.metadata.responseTime,
-      errorCount: this.stats.failedRequests,
-      successRate: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 0,
-      lastError: testResult.error?.message,
-      uptime: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 100
+      'accept': '*/*',
+      'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
+      'content-length': '0',
+      'origin': this.baseUrl,
+      'referer': `${this.baseUrl}/`,
+      'x-requested-with': 'XMLHttpRequest',
+      'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36',
+      'cookie': `ci_session=${sessionId}`
     };
   }
 
-  getStats(): ChannelStats {
-    return { ...this.stats };
-  }
-
-  async testConnection(): Promise<ChannelResponse<boolean>> {
-    const startTime = Date.now();
-    
-    try {
-      const response = await httpClient.post(`${this.baseUrl}/getServerTime`, '', {
-        headers: {
-          'content-length': '0',
-          'origin': this.baseUrl,
-          'referer': `${this.baseUrl}/`
-        },
-        timeout: this.config.timeout
-      });
-
-      return {
-        success: response.ok,
-        data: response.ok,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: this.createError(
-          ChannelErrorType.NETWORK_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
-  }
-
   private async getServerTime(): Promise<void> {
     try {
       const response = await httpClient.post(`${this.baseUrl}/getServerTime`, '', {
@@ -441,10 +263,10 @@ export class EtempMailProvider implements IMailProvider {
       
       // 返回307重定向是正常的，表示域名设置成功
       if (response.status === 307 || response.ok) {
-        console.log(`EtempMail domain changed to ID: ${domainId}`);
+        this.logger.debug('Domain changed', { domainId });
       }
     } catch (error) {
-      console.warn(`Failed to change EtempMail domain: ${error}`);
+      this.logger.warn('Failed to change domain, using the default domain', { domainId, error });
       // 不抛出错误，继续使用默认域名
     }
   }
@@ -467,31 +289,4 @@ export class EtempMailProvider implements IMailProvider {
       size: msg.body.length
     };
   }
-
-  private createError(type: ChannelErrorType, message: string, statusCode?: number): ChannelError {
-    const error = new Error(message) as ChannelError;
-    error.type = type;
-    error.channelName = this.name;
-    error.statusCode = statusCode;
-    error.retryable = type !== ChannelErrorType.AUTHENTICATION_ERROR && type !== ChannelErrorType.CONFIGURATION_ERROR;
-    error.timestamp = new Date();
-    return error;
-  }
-
-  private updateStats(type: 'request' | 'success' | 'error', responseTime?: number): void {
-    this.stats.totalRequests++;
-    this.stats.requestsToday++;
-    this.stats.lastRequestTime = new Date();
-
-    if (type === 'success') {
-      this.stats.successfulRequests++;
-      if (responseTime) {
-        this.stats.averageResponseTime = 
-          (this.stats.averageResponseTime + responseTime) / 2;
-      }
-    } else if (type === 'error') {
-      this.stats.failedRequests++;
-      this.stats.errorsToday++;
-    }
-  }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,18 +1,34 @@
 import type { IMailProvider, IProviderManager } from '../interfaces/mail-provider.js';
-import type { ChannelConfiguration, ChannelHealth, ChannelStats, ChannelCapabilities } from '../types/channel.js';
+import type { ChannelConfiguration, ChannelHealth, ChannelStats, ChannelCapabilities, ChannelResponse } from '../types/channel.js';
+import { ChannelStatus, CircuitState } from '../types/channel.js';
 import { configManager } from '../config/index.js';
+import type { SelectionStrategy } from '../types/email.js';
+import type { ChannelConfig, ConfigReloadResult } from '../types/index.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { rankProviders } from './selection.js';
+import type { ProviderCandidate } from './selection.js';
 import { MinMailProvider } from './minmail.js';
 import { TempMailPlusProvider } from './tempmail-plus.js';
 import { MailTmProvider } from './mail-tm.js';
 import { EtempMailProvider } from './etempmail.js';
 import { VanishPostProvider } from './vanishpost.js';
 import { ChatTempMailProvider } from './chat-tempmail.js';
+import { metricsService } from '../services/metrics-service.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('providers');
+
+// 每个渠道保留的最近调用结果数量（用于计算近期成功率）
+const MAX_OUTCOMES = 100;
 
 /**
  * 提供者管理器实现
  */
 export class ProviderManager implements IProviderManager {
   private providers = new Map<string, IMailProvider>();
+  private breakers = new Map<string, CircuitBreaker>();
+  private outcomes = new Map<string, boolean[]>();  // 最近调用是否成功
+  private roundRobinCursor = 0;
 
   registerProvider(provider: IMailProvider): void {
     this.providers.set(provider.name, provider);
@@ -29,8 +45,17 @@ export class ProviderManager implements IProviderManager {
       .filter((provider): provider is IMailProvider => provider !== undefined);
   }
 
-  getBestProvider(capabilities?: Partial<ChannelCapabilities>): IMailProvider | undefined {
-    const enabledProviders = this.getEnabledProviders();
+  getBestProvider(capabilities?: Partial<ChannelCapabilities>, strategy?: SelectionStrategy): IMailProvider | undefined {
+    return this.getRankedProviders(capabilities, strategy)[0];
+  }
+
+  /**
+   * 获取满足能力要求的渠道，按选择策略排列（用于故障转移）
+   */
+  getRankedProviders(capabilities?: Partial<ChannelCapabilities>, strategy?: SelectionStrategy): IMailProvider[] {
+    // 熔断中、本地限流额度已用完或域名配置无法满足的渠道不参与选择
+    const enabledProviders = this.getEnabledProviders()
+      .filter(provider => this.isAvailable(provider.name) && !this.isRateLimited(provider) && !ignoresDomains(provider));
     
     // 根据能力筛选
     const compatibleProviders = capabilities ? 
@@ -38,31 +63,58 @@ export class ProviderManager implements IProviderManager {
         const providerCaps = provider.capabilities;
         return Object.entries(capabilities).every(([key, required]) => {
           if (!required) return true;
-          return providerCaps[key as keyof ChannelCapabilities];
+          const supported = providerCaps[key as keyof ChannelCapabilities];
+          // 数值能力为上限，不能低于要求的值
+          return typeof required === 'number' ? typeof supported === 'number' && supported >= required : supported;
         });
       }) : enabledProviders;
 
-    // 按性能优先级排序（优先选择快速的provider）
-    const performanceOrder = ['chattempmail', 'tempmailplus', 'minmail', 'vanishpost', 'mailtm', 'etempmail'];
-    
-    const sortedProviders = compatibleProviders.sort((a, b) => {
-      const aIndex = performanceOrder.indexOf(a.name);
-      const bIndex = performanceOrder.indexOf(b.name);
-      
-      // 如果都在性能列表中，按顺序排序
-      if (aIndex !== -1 && bIndex !== -1) {
-        return aIndex - bIndex;
-      }
-      
-      // 如果只有一个在列表中，优先选择在列表中的
-      if (aIndex !== -1) return -1;
-      if (bIndex !== -1) return 1;
-      
-      // 都不在列表中，保持原顺序
-      return 0;
-    });
+    const candidates = compatibleProviders.map(provider => this.toCandidate(provider));
+    const selected = strategy || configManager.getConfig().routing.strategy;
+    return rankProviders(candidates, selected, selected === 'round_robin' ? this.roundRobinCursor++ : 0);
+  }
 
-    return sortedProviders[0];
+  /**
+   * 记录一次渠道调用结果，用于驱动熔断器
+   * 被本地限流拒绝的调用不说明上游状态，不计入成功率也不触发熔断
+   */
+  recordResult(name: string, response: ChannelResponse<unknown>): void {
+    if (response.metadata.throttled) {
+      // 探测请求没有访问上游，让出探测机会
+      this.breakers.get(name)?.release();
+      return;
+    }
+
+    const outcomes = this.outcomes.get(name) || [];
+    outcomes.push(response.success);
+    this.outcomes.set(name, outcomes.slice(-MAX_OUTCOMES));
+
+    if (configManager.getConfig().routing.circuitBreaker.enabled) {
+      this.getBreaker(name).record(response);
+    }
+  }
+
+  /**
+   * 渠道当前是否可用（熔断器未打开）
+   */
+  isAvailable(name: string): boolean {
+    const breaker = this.breakers.get(name);
+    return !breaker || !configManager.getConfig().routing.circuitBreaker.enabled || breaker.isAvailable();
+  }
+
+  /**
+   * 调用渠道前占用熔断器：半开状态下只有一个请求能占用成功，作为探测请求
+   */
+  tryAcquire(name: string): boolean {
+    return !configManager.getConfig().routing.circuitBreaker.enabled || this.getBreaker(name).tryAcquire();
+  }
+
+  /**
+   * 渠道本地限流额度是否已用完
+   */
+  isRateLimited(provider: IMailProvider): boolean {
+    const rateLimit = provider.getRateLimitStatus?.();
+    return rateLimit !== undefined && rateLimit.remaining < 1;
   }
 
   async getAllHealth(): Promise<Record<string, ChannelHealth>> {
@@ -70,7 +122,7 @@ export class ProviderManager implements IProviderManager {
     
     for (const [name, provider] of this.providers) {
       try {
-        result[name] = await provider.getHealth();
+        result[name] = this.applyCircuitState(name, await provider.getHealth());
       } catch (error) {
         result[name] = {
           status: 'error' as any,
@@ -96,35 +148,149 @@ export class ProviderManager implements IProviderManager {
     return result;
   }
 
-  async reloadConfig(): Promise<void> {
-    await configManager.reloadConfig();
+  /**
+   * 将各渠道的启用、熔断和限流状态写入指标
+   */
+  collectMetrics(): void {
+    const enabled = configManager.getEnabledChannels();
+    for (const [name, provider] of this.providers) {
+      metricsService.recordProviderState(name, {
+        enabled: enabled.includes(name),
+        circuit: this.breakers.get(name)?.snapshot(),
+        rateLimit: provider.getRateLimitStatus?.()
+      });
+    }
+  }
+
+  /**
+   * 将配置管理器中的渠道配置（超时、重试、限流等）应用到提供者
+   * 启用状态和优先级在选择渠道时直接读取配置，无需调用
+   */
+  applyChannelConfig(name: string): void {
+    const provider = this.providers.get(name);
+    const config = configManager.getChannelConfig(name);
+    if (provider && config) {
+      provider.reconfigure?.(toChannelConfiguration(name, config, provider.capabilities));
+    }
+  }
+
+  async reloadConfig(): Promise<ConfigReloadResult> {
+    const result = await configManager.reloadConfig();
+    if (!result.valid) {
+      return result;
+    }
+
+    // 按新配置重建熔断器
+    this.breakers.clear();
     
     // 重新初始化所有提供者
     for (const [name, provider] of this.providers) {
       const config = configManager.getChannelConfig(name);
       if (config) {
         try {
-          await provider.initialize({
-            name,
-            enabled: config.enabled,
-            priority: config.priority,
-            baseUrl: '',
-            timeout: config.timeout || 10000,
-            retries: config.retries || 2,
-            rateLimit: config.rateLimit || { requests: 30, window: 60 },
-            capabilities: provider.capabilities,
-            domains: []
-          });
+          const channelConfig = toChannelConfiguration(name, config, provider.capabilities);
+          provider.reconfigure?.(channelConfig);
+          await provider.initialize(channelConfig);
+          warnIfIgnoresDomains(provider);
         } catch (error) {
-          console.warn(`Failed to reinitialize provider ${name}:`, error);
+          logger.warn('Failed to reinitialize provider', { provider: name, error });
         }
       }
     }
+
+    return result;
+  }
+
+  /**
+   * 收集渠道的选择指标：配置优先级、近期成功率、平均延迟和剩余限流额度
+   */
+  private toCandidate(provider: IMailProvider): ProviderCandidate {
+    const config = configManager.getChannelConfig(provider.name);
+    const outcomes = this.outcomes.get(provider.name) || [];
+    const { averageResponseTime } = provider.getStats();
+
+    const rateLimit = provider.getRateLimitStatus?.();
+    const budget = rateLimit && rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 1;
+
+    return {
+      provider,
+      priority: config?.priority ?? Number.MAX_SAFE_INTEGER,
+      // 没有调用记录时视为健康，让新渠道也能分到流量
+      successRate: outcomes.length > 0
+        ? outcomes.filter(Boolean).length / outcomes.length
+        : 1,
+      latency: averageResponseTime > 0 ? averageResponseTime : undefined,
+      budget
+    };
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      const { failureThreshold, cooldown, rateLimitCooldown } = configManager.getConfig().routing.circuitBreaker;
+      breaker = new CircuitBreaker({
+        failureThreshold,
+        cooldown: cooldown * 1000,
+        rateLimitCooldown: rateLimitCooldown * 1000
+      });
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * 将熔断状态合并到健康状态中
+   */
+  private applyCircuitState(name: string, health: ChannelHealth): ChannelHealth {
+    const breaker = this.breakers.get(name);
+    if (!breaker) {
+      return health;
+    }
+
+    const circuit = breaker.snapshot();
+    let status = health.status;
+    if (circuit.state === CircuitState.OPEN) {
+      status = breaker.isRateLimited() ? ChannelStatus.RATE_LIMITED : ChannelStatus.ERROR;
+    }
+
+    return { ...health, status, circuit };
+  }
+}
+
+/**
+ * 由配置项生成提供者使用的渠道配置
+ */
+function toChannelConfiguration(name: string, config: ChannelConfig[string], capabilities: ChannelCapabilities): ChannelConfiguration {
+  return {
+    name,
+    enabled: config.enabled,
+    priority: config.priority,
+    baseUrl: config.baseUrl || '',
+    apiKey: config.apiKey,
+    timeout: config.timeout || 10000,
+    retries: config.retries || 2,
+    rateLimit: config.rateLimit || { requests: 30, window: 60 },
+    capabilities,
+    domains: config.domains || []
+  };
+}
+
+/**
+ * 渠道配置了域名列表但不能指定域名：创建的邮箱不一定在列表内，因此不用于创建邮箱
+ */
+function ignoresDomains(provider: IMailProvider): boolean {
+  return !provider.capabilities.customDomains && (provider.config.domains?.length ?? 0) > 0;
+}
+
+function warnIfIgnoresDomains(provider: IMailProvider): void {
+  if (ignoresDomains(provider)) {
+    logger.warn('Provider cannot choose the mailbox domain, domains setting disables mailbox creation', { provider: provider.name });
   }
 }
 
 // 导出单例实例
 export const providerManager = new ProviderManager();
+metricsService.addCollector(() => providerManager.collectMetrics());
 
 // 初始化所有提供者
 async function initializeProviders() {
@@ -150,25 +316,17 @@ async function initializeProviders() {
   for (const { name, Provider } of providers) {
     const config = channelConfigs[name as keyof typeof channelConfigs];
     if (config) {
-      const channelConfig: ChannelConfiguration = {
-        name,
-        enabled: config.enabled,
-        priority: config.priority,
-        baseUrl: '',
-        timeout: config.timeout || 10000,
-        retries: config.retries || 2,
-        rateLimit: config.rateLimit || { requests: 30, window: 60 },
-        capabilities: {} as ChannelCapabilities, // 会被provider自己的覆盖
-        domains: []
-      };
+      // capabilities 会被 provider 自己的覆盖
+      const channelConfig = toChannelConfiguration(name, config, {} as ChannelCapabilities);
 
       try {
         const provider = new Provider(channelConfig);
         await provider.initialize(channelConfig);
         providerManager.registerProvider(provider);
-        console.log(`Initialized provider: ${name}`);
+        logger.info('Provider initialized', { provider: name });
+        warnIfIgnoresDomains(provider);
       } catch (error) {
-        console.warn(`Failed to initialize provider ${name}:`, error);
+        logger.warn('Failed to initialize provider', { provider: name, error });
       }
     }
   }
@@ -0,0 +1,115 @@
+import type { IMailProvider } from '../interfaces/mail-provider.js';
+import type { SelectionStrategy } from '../types/email.js';
+
+/**
+ * 支持的渠道选择策略
+ */
+export const SELECTION_STRATEGIES: readonly SelectionStrategy[] = ['priority', 'fastest', 'round_robin', 'random', 'weighted'];
+
+/**
+ * 参与选择的渠道及其指标
+ */
+export interface ProviderCandidate {
+  provider: IMailProvider;
+  priority: number;     // 配置中的优先级，数字越小越优先
+  successRate: number;  // 近期成功率（0-1）
+  latency?: number;     // 平均响应时间（毫秒），没有数据时为空
+  budget: number;       // 剩余限流额度比例（0-1）
+}
+
+// 加权策略中各项指标的权重
+const WEIGHTS = {
+  priority: 0.3,
+  successRate: 0.3,
+  latency: 0.2,
+  budget: 0.2
+};
+
+// 没有延迟数据时使用的中性分数
+const UNKNOWN_LATENCY_SCORE = 0.5;
+
+export function isSelectionStrategy(value: unknown): value is SelectionStrategy {
+  return typeof value === 'string' && (SELECTION_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * 按策略对渠道排序，第一个为首选，其余用于故障转移
+ * @param cursor 轮询计数（round_robin 使用）
+ */
+export function rankProviders(candidates: ProviderCandidate[], strategy: SelectionStrategy, cursor = 0): IMailProvider[] {
+  const byPriority = [...candidates].sort((a, b) => a.priority - b.priority);
+  let ranked: ProviderCandidate[];
+
+  switch (strategy) {
+    case 'fastest':
+      // 没有延迟数据的渠道排在后面
+      ranked = byPriority.sort((a, b) => (a.latency ?? Infinity) - (b.latency ?? Infinity));
+      break;
+    case 'round_robin': {
+      const offset = byPriority.length > 0 ? cursor % byPriority.length : 0;
+      ranked = [...byPriority.slice(offset), ...byPriority.slice(0, offset)];
+      break;
+    }
+    case 'random':
+      ranked = shuffle(byPriority);
+      break;
+    case 'weighted':
+      ranked = weightedShuffle(byPriority);
+      break;
+    case 'priority':
+    default:
+      ranked = byPriority;
+  }
+
+  return ranked.map(candidate => candidate.provider);
+}
+
+/**
+ * 计算渠道综合得分（0-1）
+ * @param rank 按优先级排序后的位置
+ * @param total 参与选择的渠道数量
+ */
+export function scoreCandidate(candidate: ProviderCandidate, rank: number, total: number): number {
+  const priorityScore = total > 1 ? 1 - rank / total : 1;
+  const latencyScore = candidate.latency === undefined
+    ? UNKNOWN_LATENCY_SCORE
+    : 1 / (1 + candidate.latency / 1000);
+
+  return WEIGHTS.priority * priorityScore
+    + WEIGHTS.successRate * candidate.successRate
+    + WEIGHTS.latency * latencyScore
+    + WEIGHTS.budget * candidate.budget;
+}
+
+/**
+ * 按得分加权随机排序，得分越高越可能排在前面
+ */
+function weightedShuffle(candidates: ProviderCandidate[]): ProviderCandidate[] {
+  const pool = candidates.map((candidate, rank) => ({
+    candidate,
+    weight: Math.max(scoreCandidate(candidate, rank, candidates.length), 0.01)
+  }));
+  const result: ProviderCandidate[] = [];
+
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, item) => sum + item.weight, 0);
+    let target = Math.random() * total;
+    let index = 0;
+    while (index < pool.length - 1 && target >= pool[index].weight) {
+      target -= pool[index].weight;
+      index++;
+    }
+    result.push(pool.splice(index, 1)[0].candidate);
+  }
+
+  return result;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -1,23 +1,14 @@
-import type { IMailProvider } from '../interfaces/mail-provider.js';
 import type {
-  EmailAddress,
   EmailMessage,
   CreateEmailRequest,
   CreateEmailResponse,
-  EmailListQuery,
-  EmailContact
+  EmailListQuery
 } from '../types/email.js';
-import type {
-  ChannelConfiguration,
-  ChannelHealth,
-  ChannelStats,
-  ChannelResponse,
-  ChannelCapabilities,
-  ChannelError
-} from '../types/channel.js';
-import { ChannelStatus, ChannelErrorType } from '../types/channel.js';
+import type { ChannelCapabilities, ChannelConfiguration } from '../types/channel.js';
+import { ChannelErrorType } from '../types/channel.js';
 import { httpClient } from '../utils/http-client.js';
-import { generateId, generateEmailPrefix, parseDate, stripHtml } from '../utils/helpers.js';
+import { generateEmailPrefix, parseDate } from '../utils/helpers.js';
+import { BaseMailProvider } from './base.js';
 
 /**
  * TempMail Plus API 响应类型
@@ -63,7 +54,7 @@ interface TempMailPlusEmailDetail {
 /**
  * TempMail Plus 提供者实现
  */
-export class TempMailPlusProvider implements IMailProvider {
+export class TempMailPlusProvider extends BaseMailProvider {
   readonly name = 'tempmailplus';
   
   readonly capabilities: ChannelCapabilities = {
@@ -77,15 +68,6 @@ export class TempMailPlusProvider implements IMailProvider {
     attachmentSupport: true
   };
 
-  private stats: ChannelStats = {
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    averageResponseTime: 0,
-    errorsToday: 0,
-    requestsToday: 0
-  };
-
   // 支持的域名列表
   private readonly domains = [
     'mailto.plus',
@@ -99,278 +81,115 @@ export class TempMailPlusProvider implements IMailProvider {
     'merepost.com'
   ];
 
-  constructor(public readonly config: ChannelConfiguration) {}
+  private get baseUrl(): string {
+    return this.resolveBaseUrl('https://tempmail.plus');
+  }
 
   async initialize(config: ChannelConfiguration): Promise<void> {
-    console.log('TempMail Plus provider initialized (connection will be tested on first use)');
+    this.logger.debug('Initialized, connection will be tested on first use');
   }
 
-  async createEmail(request: CreateEmailRequest): Promise<ChannelResponse<CreateEmailResponse>> {
-    const startTime = Date.now();
+  protected async doCreate(request: CreateEmailRequest): Promise<CreateEmailResponse> {
+    // TempMail Plus 不提供创建邮箱的API，我们生成一个随机邮箱
+    const prefix = request.prefix || generateEmailPrefix(8);
+    const domain = request.domain && this.domains.includes(request.domain) 
+      ? request.domain 
+      : this.domains[Math.floor(Math.random() * this.domains.length)];
     
-    try {
-      this.updateStats('request');
-
-      // TempMail Plus 不提供创建邮箱的API，我们生成一个随机邮箱
-      const prefix = request.prefix || generateEmailPrefix(8);
-      const domain = request.domain && this.domains.includes(request.domain) 
-        ? request.domain 
-        : this.domains[Math.floor(Math.random() * this.domains.length)];
-      
-      const address = `${prefix}@${domain}`;
-      const [username, domainPart] = address.split('@');
-
-      const result: CreateEmailResponse = {
-        address,
-        domain: domainPart,
-        username,
-        provider: this.name
-      };
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: result,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+    const address = `${prefix}@${domain}`;
+    const [username, domainPart] = address.split('@');
 
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
+    return {
+      address,
+      domain: domainPart,
+      username,
+      provider: this.name
+    };
   }
 
-  async getEmails(query: EmailListQuery): Promise<ChannelResponse<EmailMessage[]>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
-
-      const encodedEmail = encodeURIComponent(query.address);
-      const limit = query.limit || 20;
-      const url = `https://tempmail.plus/api/mails?email=${encodedEmail}&limit=${limit}&epin=`;
-
-      const response = await httpClient.get<TempMailPlusListResponse>(url, {
-        headers: {
-          'accept': 'application/json, text/javascript, */*; q=0.01',
-          'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
-          'referer': 'https://tempmail.plus/zh/',
-          'x-requested-with': 'XMLHttpRequest',
-          'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
-        },
-        timeout: this.config.timeout,
-        retries: this.config.retries
-      });
-
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `TempMail Plus API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const data = response.data;
-      if (!data.result) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          'TempMail Plus API returned unsuccessful result'
-        );
-      }
-
-      const messages = data.mail_list || [];
-      const emails: EmailMessage[] = messages.map(msg => this.mapToEmailMessage(msg, query.address));
-
-      // 应用过滤器
-      let filteredEmails = emails;
-      if (query.unreadOnly) {
-        filteredEmails = filteredEmails.filter(email => !email.isRead);
-      }
-      if (query.since) {
-        filteredEmails = filteredEmails.filter(email => email.receivedAt >= query.since!);
-      }
-
-      // 应用分页
-      const offset = query.offset || 0;
-      const paginatedEmails = filteredEmails.slice(offset, offset + limit);
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: paginatedEmails,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+  protected async doList(query: EmailListQuery): Promise<EmailMessage[]> {
+    const encodedEmail = encodeURIComponent(query.address);
+    const limit = query.limit || 20;
+    const url = `${this.baseUrl}/api/mails?email=${encodedEmail}&limit=${limit}&epin=`;
+
+    const response = await httpClient.get<TempMailPlusListResponse>(url, {
+      headers: this.buildHeaders(),
+      timeout: this.config.timeout,
+      retries: this.config.retries
+    });
+
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `TempMail Plus API returned ${response.status}: ${response.statusText}`,
+        response.headers
+      );
+    }
 
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
+    const data = response.data;
+    if (!data.result) {
+      throw this.createError(
+        ChannelErrorType.API_ERROR,
+        'TempMail Plus API returned unsuccessful result'
+      );
     }
-  }
 
-  async getEmailContent(emailAddress: string, emailId: string, accessToken?: string): Promise<ChannelResponse<EmailMessage>> {
-    const startTime = Date.now();
-    
-    try {
-      this.updateStats('request');
+    const messages = data.mail_list || [];
+    return messages.map(msg => this.mapToEmailMessage(msg, query.address));
+  }
 
-      const encodedEmail = encodeURIComponent(emailAddress);
-      const url = `https://tempmail.plus/api/mails/${emailId}?email=${encodedEmail}&epin=`;
+  protected async doGet(emailAddress: string, emailId: string): Promise<EmailMessage> {
+    const encodedEmail = encodeURIComponent(emailAddress);
+    const url = `${this.baseUrl}/api/mails/${emailId}?email=${encodedEmail}&epin=`;
+
+    const response = await httpClient.get<TempMailPlusEmailDetail>(url, {
+      headers: this.buildHeaders(),
+      timeout: this.config.timeout,
+      retries: this.config.retries
+    });
+
+    if (!response.ok) {
+      throw this.createStatusError(
+        response.status,
+        `TempMail Plus API returned ${response.status}: ${response.statusText}`,
+        response.headers
+      );
+    }
 
-      const response = await httpClient.get<TempMailPlusEmailDetail>(url, {
-        headers: {
-          'accept': 'application/json, text/javascript, */*; q=0.01',
-          'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
-          'referer': 'https://tempmail.plus/zh/',
-          'x-requested-with': 'XMLHttpRequest',
-          'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
-        },
-        timeout: this.config.timeout,
-        retries: this.config.retries
-      });
+    const data = response.data;
+    if (!data.result) {
+      throw this.createError(
+        ChannelErrorType.API_ERROR,
+        'Email not found or API error'
+      );
+    }
 
-      if (!response.ok) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          `TempMail Plus API returned ${response.status}: ${response.statusText}`,
-          response.status
-        );
-      }
+    return this.mapDetailToEmailMessage(data, emailAddress);
+  }
 
-      const data = response.data;
-      if (!data.result) {
-        throw this.createError(
-          ChannelErrorType.API_ERROR,
-          'Email not found or API error'
-        );
+  protected async doTestConnection(): Promise<boolean> {
+    // 测试获取一个假邮箱的邮件列表
+    const testEmail = `test123@${this.domains[0]}`;
+    const encodedEmail = encodeURIComponent(testEmail);
+    const response = await httpClient.get(
+      `${this.baseUrl}/api/mails?email=${encodedEmail}&limit=1&epin=`,
+      {
+        timeout: this.config.timeout
       }
-
-      const email = this.mapDetailToEmailMessage(data, emailAddress);
-
-      this.updateStats('success', Date.now() - startTime);
-
-      return {
-        success: true,
-        data: email,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-
-    } catch (error) {
-      this.updateStats('error', Date.now() - startTime);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error as ChannelError : this.createError(
-          ChannelErrorType.UNKNOWN_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
+    );
+    return response.ok;
   }
 
-
-
-  async getHealth(): Promise<ChannelHealth> {
-    const testResult = await this.testConnection();
-    
+  private buildHeaders(): Record<string, string> {
     return {
-      status: testResult.success ? ChannelStatus.ACTIVE : ChannelStatus.ERROR,
-      lastChecked: new Date(),
-      responseTime: testResult.metadata.responseTime,
-      errorCount: this.stats.failedRequests,
-      successRate: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 0,
-      lastError: testResult.error?.message,
-      uptime: this.stats.totalRequests > 0 ? 
-        (this.stats.successfulRequests / this.stats.totalRequests) * 100 : 100
+      'accept': 'application/json, text/javascript, */*; q=0.01',
+      'accept-language': 'zh-CN,zh;q=0.9,en-US;q=0.8,en;q=0.7',
+      'referer': `${this.baseUrl}/zh/`,
+      'x-requested-with': 'XMLHttpRequest',
+      'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
     };
   }
 
-  getStats(): ChannelStats {
-    return { ...this.stats };
-  }
-
-  async testConnection(): Promise<ChannelResponse<boolean>> {
-    const startTime = Date.now();
-    
-    try {
-      // 测试获取一个假邮箱的邮件列表
-      const testEmail = `test123@${this.domains[0]}`;
-      const encodedEmail = encodeURIComponent(testEmail);
-      const response = await httpClient.get(
-        `https://tempmail.plus/api/mails?email=${encodedEmail}&limit=1&epin=`,
-        {
-          timeout: this.config.timeout
-        }
-      );
-
-      return {
-        success: response.ok,
-        data: response.ok,
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: this.createError(
-          ChannelErrorType.NETWORK_ERROR,
-          error instanceof Error ? error.message : String(error)
-        ),
-        metadata: {
-          provider: this.name,
-          responseTime: Date.now() - startTime,
-          requestId: generateId()
-        }
-      };
-    }
-  }
-
   private mapToEmailMessage(msg: TempMailPlusMessage, emailAddress: string): EmailMessage {
     return {
       id: String(msg.mail_id),
@@ -417,31 +236,4 @@ export class TempMailPlusProvider implements IMailProvider {
       }
     };
   }
-
-  private createError(type: ChannelErrorType, message: string, statusCode?: number): ChannelError {
-    const error = new Error(message) as ChannelError;
-    error.type = type;
-    error.channelName = this.name;
-    error.statusCode = statusCode;
-    error.retryable = type !== ChannelErrorType.AUTHENTICATION_ERROR && type !== ChannelErrorType.CONFIGURATION_ERROR;
-    error.timestamp = new Date();
-    return error;
-  }
-
-  private updateStats(type: 'request' | 'success' | 'error', responseTime?: number): void {
-    this.stats.totalRequests++;
-    this.stats.requestsToday++;
-    this.stats.lastRequestTime = new Date();
-
-    if (type === 'success') {
-      this.stats.successfulRequests++;
-      if (responseTime) {
-        this.stats.averageResponseTime = 
-          (this.stats.averageResponseTime + responseTime) / 2;
-      }
-    } else if (type === 'error') {
-      this.stats.failedRequests++;
-      this.stats.errorsToday++;
-    }
-  }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,280 @@
+/**
+ * 接口定义
+ * 路由注册（index.ts）、请求校验、OpenAPI 文档和 /api/info 的接口列表都来自这里
+ */
+
+import type { ApiKeyScope, ErrorCode } from '../types/index.js';
+import type { Annotations, Schema } from '../utils/schema.js';
+import {
+  channelInfo,
+  createdMailbox,
+  createEmailBody,
+  createWebhookBody,
+  emailContentBody,
+  emailMessage,
+  inboxStreamQuery,
+  listEmailsBody,
+  providersHealth,
+  providersStats,
+  reloadResult,
+  serviceHealth,
+  updateChannelBody,
+  usage,
+  waitEmailBody,
+  webhook
+} from './schemas.js';
+import { s } from '../utils/schema.js';
+
+export type HttpMethod = 'get' | 'post' | 'patch' | 'delete';
+
+/**
+ * 单个接口
+ */
+export interface RouteDefinition<B = unknown, Q = unknown> {
+  method: HttpMethod;
+  path: string;                        // Hono 路径，参数写作 :name
+  summary: string;
+  description?: string;
+  tag: string;
+  auth?: ApiKeyScope | 'any';          // 启用 API Key 认证时需要的权限，不设置时为公开接口
+  params?: Record<string, Annotations>;
+  query?: Schema<Q>;
+  body?: Schema<B>;
+  bodyRequired?: boolean;              // 为 false 时空请求体视为 {}
+  response?: Schema<unknown>;          // 成功响应中 data 的结构
+  responseType?: 'json' | 'text' | 'html' | 'event-stream';
+  raw?: boolean;                       // JSON 响应不带 { success, data } 外层结构
+  errors?: ErrorCode[];                // 接口特有的错误码（认证、限流等通用错误自动补充）
+}
+
+// 保留路径字面量类型，路由中的 c.req.param() 才能推导出参数
+function defineRoute<B = unknown, Q = unknown, P extends string = string>(
+  route: RouteDefinition<B, Q> & { path: P }
+): RouteDefinition<B, Q> & { path: P } {
+  return route;
+}
+
+const MAILBOX_ERRORS: ErrorCode[] = ['mailbox_unauthorized', 'forbidden', 'quota_exceeded', 'upstream_error', 'upstream_unavailable', 'upstream_timeout'];
+
+const channelName = { name: { description: '渠道名称', example: 'minmail' } };
+
+export const routes = {
+  health: defineRoute({
+    method: 'get',
+    path: '/health',
+    summary: '健康检查',
+    tag: 'System',
+    response: serviceHealth
+  }),
+  metrics: defineRoute({
+    method: 'get',
+    path: '/metrics',
+    summary: 'Prometheus 指标',
+    description: '设置 TEMPMAILHUB_METRICS_TOKEN 后需要携带 Authorization: Bearer <token>',
+    tag: 'System',
+    responseType: 'text'
+  }),
+  info: defineRoute({
+    method: 'get',
+    path: '/api/info',
+    summary: 'API 信息',
+    tag: 'System',
+    response: s.any({ description: '服务信息、提供者、认证方式和接口列表' })
+  }),
+  openapi: defineRoute({
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'OpenAPI 文档',
+    tag: 'System',
+    raw: true,
+    response: s.any({ description: 'OpenAPI 3.1 文档' })
+  }),
+  docs: defineRoute({
+    method: 'get',
+    path: '/docs',
+    summary: '接口文档页面（Swagger UI）',
+    tag: 'System',
+    responseType: 'html'
+  }),
+
+  createEmail: defineRoute({
+    method: 'post',
+    path: '/api/mail/create',
+    summary: '创建临时邮箱',
+    description: '未指定 provider 时按选择策略挑选渠道，失败时自动切换到下一个渠道。失败响应中的 attempts 为各渠道的尝试结果。',
+    tag: 'Mail',
+    auth: 'mail:create',
+    body: createEmailBody,
+    response: createdMailbox,
+    errors: ['forbidden', 'quota_exceeded', 'upstream_error', 'upstream_unavailable', 'upstream_timeout']
+  }),
+  listEmails: defineRoute({
+    method: 'post',
+    path: '/api/mail/list',
+    summary: '获取邮件列表',
+    tag: 'Mail',
+    auth: 'mail:read',
+    body: listEmailsBody,
+    bodyRequired: true,
+    response: s.array(emailMessage),
+    errors: MAILBOX_ERRORS
+  }),
+  emailContent: defineRoute({
+    method: 'post',
+    path: '/api/mail/content',
+    summary: '获取邮件详情',
+    tag: 'Mail',
+    auth: 'mail:read',
+    body: emailContentBody,
+    bodyRequired: true,
+    response: emailMessage,
+    errors: ['not_found', ...MAILBOX_ERRORS]
+  }),
+  waitEmail: defineRoute({
+    method: 'post',
+    path: '/api/mail/wait',
+    summary: '等待符合条件的新邮件',
+    description: '长轮询，收到第一封匹配的邮件后立即返回；超时返回 408（wait_timeout），响应中 timedOut 为 true。',
+    tag: 'Mail',
+    auth: 'mail:read',
+    body: waitEmailBody,
+    bodyRequired: true,
+    response: emailMessage,
+    errors: ['wait_timeout', ...MAILBOX_ERRORS]
+  }),
+  inboxStream: defineRoute({
+    method: 'get',
+    path: '/api/mail/stream',
+    summary: '以 SSE 推送新邮件',
+    description: '事件：ready（邮箱信息）、message（新邮件，id 为邮件 ID，可通过 Last-Event-ID 续传）、error、ping（15 秒心跳）。',
+    tag: 'Mail',
+    auth: 'mail:read',
+    query: inboxStreamQuery,
+    responseType: 'event-stream',
+    errors: MAILBOX_ERRORS
+  }),
+  createWebhook: defineRoute({
+    method: 'post',
+    path: '/api/mail/watch',
+    summary: '注册新邮件 webhook',
+    tag: 'Webhooks',
+    auth: 'mail:read',
+    body: createWebhookBody,
+    bodyRequired: true,
+    response: webhook,
+    errors: MAILBOX_ERRORS
+  }),
+  deleteWebhook: defineRoute({
+    method: 'delete',
+    path: '/api/mail/watch/:id',
+    summary: '取消 webhook',
+    tag: 'Webhooks',
+    auth: 'mail:read',
+    params: { id: { description: '注册时返回的 webhook ID' } },
+    response: s.object({ id: s.string() }),
+    errors: ['forbidden', 'not_found']
+  }),
+
+  testConnections: defineRoute({
+    method: 'post',
+    path: '/api/mail/providers/test-connections',
+    summary: '测试所有提供者连接',
+    tag: 'Providers',
+    response: providersHealth
+  }),
+  providersHealth: defineRoute({
+    method: 'get',
+    path: '/api/mail/providers/health',
+    summary: '提供者健康与熔断状态',
+    tag: 'Providers',
+    response: providersHealth
+  }),
+  providersStats: defineRoute({
+    method: 'get',
+    path: '/api/mail/providers/stats',
+    summary: '提供者统计信息',
+    tag: 'Providers',
+    response: providersStats
+  }),
+  usage: defineRoute({
+    method: 'get',
+    path: '/api/usage',
+    summary: '当前 API Key 的用量与额度',
+    description: '需要启用 API Key 认证，admin 权限额外返回各提供者统计。',
+    tag: 'Usage',
+    auth: 'any',
+    response: usage
+  }),
+
+  listChannels: defineRoute({
+    method: 'get',
+    path: '/api/admin/channels',
+    summary: '渠道列表与运行状态',
+    tag: 'Admin',
+    auth: 'admin',
+    response: s.array(channelInfo)
+  }),
+  getChannel: defineRoute({
+    method: 'get',
+    path: '/api/admin/channels/:name',
+    summary: '渠道详情',
+    tag: 'Admin',
+    auth: 'admin',
+    params: channelName,
+    response: channelInfo,
+    errors: ['not_found']
+  }),
+  updateChannel: defineRoute({
+    method: 'patch',
+    path: '/api/admin/channels/:name',
+    summary: '修改渠道配置',
+    description: '只作用于当前实例，重新加载配置后恢复。配置校验失败时响应中的 errors 为逐项错误。',
+    tag: 'Admin',
+    auth: 'admin',
+    params: channelName,
+    body: updateChannelBody,
+    bodyRequired: true,
+    response: channelInfo,
+    errors: ['not_found']
+  }),
+  enableChannel: defineRoute({
+    method: 'post',
+    path: '/api/admin/channels/:name/enable',
+    summary: '启用渠道',
+    tag: 'Admin',
+    auth: 'admin',
+    params: channelName,
+    response: channelInfo,
+    errors: ['not_found']
+  }),
+  disableChannel: defineRoute({
+    method: 'post',
+    path: '/api/admin/channels/:name/disable',
+    summary: '禁用渠道',
+    tag: 'Admin',
+    auth: 'admin',
+    params: channelName,
+    response: channelInfo,
+    errors: ['not_found']
+  }),
+  reload: defineRoute({
+    method: 'post',
+    path: '/api/admin/reload',
+    summary: '重新加载配置',
+    tag: 'Admin',
+    auth: 'admin',
+    response: reloadResult
+  })
+};
+
+/**
+ * 接口列表（"GET /health - 健康检查"），按公开、需认证和管理接口分组
+ */
+export function listEndpoints(): Record<'public' | 'protected' | 'admin', string[]> {
+  const groups: Record<'public' | 'protected' | 'admin', string[]> = { public: [], protected: [], admin: [] };
+  for (const route of Object.values(routes) as RouteDefinition[]) {
+    const group = !route.auth ? 'public' : route.auth === 'admin' ? 'admin' : 'protected';
+    groups[group].push(`${route.method.toUpperCase()} ${route.path} - ${route.summary}`);
+  }
+  return groups;
+}
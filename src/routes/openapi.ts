@@ -0,0 +1,210 @@
+/**
+ * OpenAPI 3.1 文档与 Swagger UI
+ * 文档由接口定义（definitions.ts）生成，不需要手工维护
+ */
+
+import type { ErrorCode } from '../types/index.js';
+import { ERROR_STATUS } from '../utils/errors.js';
+import type { JsonSchema, SchemaComponents } from '../utils/schema.js';
+import { routes } from './definitions.js';
+import type { RouteDefinition } from './definitions.js';
+import { errorResponse } from './schemas.js';
+
+const SECURITY_SCHEME = 'apiKey';
+
+const CONTENT_TYPES = {
+  json: 'application/json',
+  text: 'text/plain',
+  html: 'text/html',
+  'event-stream': 'text/event-stream'
+} as const;
+
+const TAGS = [
+  { name: 'Mail', description: '邮箱与邮件' },
+  { name: 'Webhooks', description: '新邮件推送' },
+  { name: 'Providers', description: '提供者状态' },
+  { name: 'Usage', description: '用量与额度' },
+  { name: 'Admin', description: '渠道管理（需要 admin 权限）' },
+  { name: 'System', description: '服务信息' }
+];
+
+let cachedDocument: JsonSchema | null = null;
+
+/**
+ * 生成 OpenAPI 文档（接口定义不会变化，生成一次后缓存）
+ */
+export function getOpenApiDocument(): JsonSchema {
+  if (!cachedDocument) {
+    cachedDocument = createOpenApiDocument();
+  }
+  return cachedDocument;
+}
+
+function createOpenApiDocument(): JsonSchema {
+  const components: SchemaComponents = {};
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const [operationId, route] of Object.entries(routes) as [string, RouteDefinition][]) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: toOperation(operationId, route, components) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'TempMailHub API',
+      version: '1.0.0',
+      description: '临时邮件网关服务：聚合多个临时邮箱提供者，提供统一的 REST API。\n\n'
+        + '成功响应为 `{ success: true, data, timestamp, provider? }`，'
+        + '失败响应为 `{ success: false, error: { code, message, retryable, provider?, retryAfter?, details? }, timestamp }`，'
+        + '参数校验失败时 details 逐个列出出错的字段。',
+      license: { name: 'MIT', identifier: 'MIT' }
+    },
+    servers: [{ url: '/' }],
+    tags: TAGS,
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        [SECURITY_SCHEME]: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API Key，通过 Authorization: Bearer <api-key> 传递。未启用 API Key 认证时可以不传。'
+        }
+      }
+    }
+  };
+}
+
+function toOperation(operationId: string, route: RouteDefinition, components: SchemaComponents): JsonSchema {
+  const scope = route.auth && route.auth !== 'any' ? `\n\n需要 \`${route.auth}\` 权限。` : '';
+
+  return {
+    operationId,
+    summary: route.summary,
+    description: (route.description || scope) ? `${route.description || ''}${scope}`.trim() : undefined,
+    tags: [route.tag],
+    security: route.auth ? [{ [SECURITY_SCHEME]: [] }] : [],
+    parameters: toParameters(route, components),
+    requestBody: route.body && {
+      required: route.bodyRequired === true,
+      content: { 'application/json': { schema: route.body.toJSONSchema(components) } }
+    },
+    responses: {
+      200: toSuccessResponse(route, components),
+      ...toErrorResponses(route, components)
+    }
+  };
+}
+
+function toParameters(route: RouteDefinition, components: SchemaComponents): JsonSchema[] | undefined {
+  const parameters: JsonSchema[] = Object.entries(route.params || {}).map(([name, annotations]) => ({
+    name,
+    in: 'path',
+    required: true,
+    description: annotations.description,
+    schema: { type: 'string', examples: annotations.example === undefined ? undefined : [annotations.example] }
+  }));
+
+  if (route.query) {
+    const query = route.query.toJSONSchema(components);
+    const required = (query.required as string[] | undefined) || [];
+    for (const [name, schema] of Object.entries((query.properties || {}) as Record<string, JsonSchema>)) {
+      const { description, ...rest } = schema;
+      parameters.push({ name, in: 'query', required: required.includes(name), description, schema: rest });
+    }
+  }
+
+  return parameters.length > 0 ? parameters : undefined;
+}
+
+function toSuccessResponse(route: RouteDefinition, components: SchemaComponents): JsonSchema {
+  const type = route.responseType || 'json';
+  if (type !== 'json') {
+    return { description: 'OK', content: { [CONTENT_TYPES[type]]: { schema: { type: 'string' } } } };
+  }
+
+  const data = route.response ? route.response.toJSONSchema(components) : {};
+  const schema = route.raw
+    ? data
+    : {
+      type: 'object',
+      properties: {
+        success: { const: true },
+        data,
+        message: { type: 'string' },
+        timestamp: { type: 'string', format: 'date-time' },
+        provider: { type: 'string', description: '处理请求的提供者' }
+      },
+      required: ['success', 'timestamp']
+    };
+  return { description: 'OK', content: { 'application/json': { schema } } };
+}
+
+/**
+ * 按状态码分组的错误响应，认证、限流等通用错误按接口属性补充
+ */
+function toErrorResponses(route: RouteDefinition, components: SchemaComponents): Record<number, JsonSchema> {
+  const codes = new Set<ErrorCode>();
+  if (route.body || route.query) {
+    codes.add('invalid_request');
+  }
+  if (route.auth) {
+    codes.add('unauthorized');
+    if (route.auth !== 'any') {
+      codes.add('forbidden');
+    }
+  }
+  route.errors?.forEach(code => codes.add(code));
+  if (route.path.startsWith('/api/')) {
+    codes.add('rate_limited');
+  }
+  codes.add('internal_error');
+
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    const status = ERROR_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) || []), code]);
+  }
+
+  const schema = errorResponse.toJSONSchema(components);
+  return Object.fromEntries([...byStatus.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([status, statusCodes]) => [status, {
+      description: statusCodes.map(code => `\`${code}\``).join(', '),
+      content: { 'application/json': { schema } }
+    }]));
+}
+
+// Swagger UI 固定版本，升级时需要同时更新完整性校验值（npm pack 后对文件计算 sha384）
+const SWAGGER_UI_BASE = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.1';
+const SWAGGER_UI_INTEGRITY = {
+  css: 'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW',
+  js: 'sha384-ZPehFMQommnnuaZ4rpxgkgTT2DKFVp4hZC/7pLit+9Lek9T1YGSo23eHFbvNkXkw'
+};
+
+/**
+ * Swagger UI 页面，静态资源从 jsDelivr 加载并校验完整性
+ */
+export function renderSwaggerUi(specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>TempMailHub API 文档</title>
+    <link rel="stylesheet" href="${SWAGGER_UI_BASE}/swagger-ui.css" integrity="${SWAGGER_UI_INTEGRITY.css}" crossorigin="anonymous">
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI_BASE}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_INTEGRITY.js}" crossorigin="anonymous"></script>
+    <script>
+        window.ui = SwaggerUIBundle({
+            url: ${JSON.stringify(specUrl)},
+            dom_id: '#swagger-ui',
+            persistAuthorization: true
+        });
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,340 @@
+/**
+ * 接口的请求与响应结构
+ * 请求结构用于运行时校验，响应结构只用于生成 OpenAPI 文档；
+ * 创建邮箱的选项（前缀、域名、有效期）按提供者的能力（ChannelCapabilities）检查
+ */
+
+import type {
+  CreateEmailRequest,
+  CreateWebhookRequest,
+  EmailContentRequest,
+  EmailListRequest,
+  EmailMatchFilters,
+  EmailWaitRequest,
+  MailboxRequest
+} from '../types/email.js';
+import type { ErrorCode } from '../types/index.js';
+import { ChannelErrorType, ChannelStatus, CircuitState } from '../types/channel.js';
+import { providerManager } from '../providers/index.js';
+import { SELECTION_STRATEGIES } from '../providers/selection.js';
+import { FILTER_PATTERN_MAX_LENGTH, WAIT_DEFAULT_SECONDS, WAIT_MAX_SECONDS } from '../services/mail-service.js';
+import { ERROR_STATUS } from '../utils/errors.js';
+import { join, s } from '../utils/schema.js';
+import type { SchemaIssue, Shape } from '../utils/schema.js';
+
+// 单次获取邮件列表的最大数量
+export const LIST_LIMIT_MAX = 100;
+
+// 请求体中的邮箱定位字段
+const mailboxFields: Shape<MailboxRequest> = {
+  address: s.string({ description: '邮箱地址', example: 'abc123@somoj.com' }),
+  handle: s.string({ description: '创建邮箱时返回的邮箱句柄，可代替 address、provider 和 accessToken' }),
+  provider: s.string({ description: '提供者名称，不传时按邮箱域名识别', example: 'mailtm' }),
+  accessToken: s.string({ description: '创建邮箱时返回的访问令牌（Mail.tm 等提供者需要）' })
+};
+
+// 不允许被量词修饰的分组内再有量词或分支（如 (a+)+、(a|aa)+），由邮件服务编译时检查
+const filterFields: Shape<EmailMatchFilters> = {
+  from: s.string({ maxLength: FILTER_PATTERN_MAX_LENGTH, description: '匹配发件人地址或名称的正则表达式（不区分大小写）', example: 'github\\.com' }),
+  subject: s.string({ maxLength: FILTER_PATTERN_MAX_LENGTH, description: '匹配主题的正则表达式', example: 'verify|验证' }),
+  body: s.string({ maxLength: FILTER_PATTERN_MAX_LENGTH, description: '匹配正文（文本或 HTML）的正则表达式' })
+};
+
+const sinceField = s.string({ format: 'date-time', description: '只返回此时间之后收到的邮件' });
+const extractField = s.boolean({ description: '提取验证码与链接，结果在 extracted 字段中返回' });
+
+/**
+ * 检查创建选项是否被提供者支持
+ * 指定 provider 时按该提供者检查；未指定时渠道选择只会挑选支持这些选项的提供者，这里只检查有效期是否超出所有已启用提供者的上限
+ */
+function checkCreateOptions(request: CreateEmailRequest, path: string, issues: SchemaIssue[]): void {
+  const enabled = providerManager.getEnabledProviders();
+
+  if (!request.provider) {
+    if (request.expirationMinutes !== undefined) {
+      const max = Math.max(0, ...enabled.map(provider => provider.capabilities.maxExpirationMinutes || 0));
+      if (max === 0) {
+        issues.push({ path: join(path, 'expirationMinutes'), message: 'is not supported by any enabled provider' });
+      } else if (request.expirationMinutes > max) {
+        issues.push({ path: join(path, 'expirationMinutes'), message: `must be <= ${max}, got ${request.expirationMinutes}` });
+      }
+    }
+    return;
+  }
+
+  const provider = providerManager.getProvider(request.provider);
+  if (!provider) {
+    issues.push({
+      path: join(path, 'provider'),
+      message: `is not a known provider, expected one of ${enabled.map(item => item.name).join(', ')}`
+    });
+    return;
+  }
+
+  const { customPrefix, customDomains, maxExpirationMinutes } = provider.capabilities;
+  if (request.prefix !== undefined && !customPrefix) {
+    issues.push({ path: join(path, 'prefix'), message: `is not supported by provider ${provider.name}` });
+  }
+  if (request.domain !== undefined && !customDomains) {
+    issues.push({ path: join(path, 'domain'), message: `is not supported by provider ${provider.name}` });
+  }
+  if (request.expirationMinutes !== undefined) {
+    if (!maxExpirationMinutes) {
+      issues.push({ path: join(path, 'expirationMinutes'), message: `is not supported by provider ${provider.name}` });
+    } else if (request.expirationMinutes > maxExpirationMinutes) {
+      issues.push({
+        path: join(path, 'expirationMinutes'),
+        message: `must be <= ${maxExpirationMinutes} for provider ${provider.name}, got ${request.expirationMinutes}`
+      });
+    }
+  }
+}
+
+// ---- 请求 ----
+
+export const createEmailBody = s.named('CreateEmailRequest', s.refine(s.object<CreateEmailRequest>({
+  provider: s.string({ description: '指定提供者，不传时按 strategy 自动选择并失败切换', example: 'mailtm' }),
+  domain: s.string({
+    maxLength: 253,
+    pattern: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/,
+    description: '指定域名，需要提供者支持自定义域名',
+    example: 'mailto.plus'
+  }),
+  prefix: s.string({
+    minLength: 1,
+    maxLength: 64,
+    pattern: /^[A-Za-z0-9._-]+$/,
+    description: '指定用户名前缀，需要提供者支持自定义前缀'
+  }),
+  expirationMinutes: s.number({
+    integer: true,
+    min: 1,
+    description: '有效期（分钟），需要提供者支持自定义有效期，且不能超过该提供者的上限（如 MinMail 为 1440）'
+  }),
+  strategy: s.oneOf(SELECTION_STRATEGIES, { description: '未指定 provider 时的渠道选择策略，默认使用配置中的策略' })
+}, { passthrough: true }), checkCreateOptions));
+
+export const listEmailsBody = s.named('ListEmailsRequest', s.object<EmailListRequest>({
+  ...mailboxFields,
+  limit: s.number({ integer: true, min: 1, max: LIST_LIMIT_MAX, description: '返回数量，默认 20', example: 20 }),
+  offset: s.number({ integer: true, min: 0, description: '跳过数量，默认 0', example: 0 }),
+  unreadOnly: s.boolean({ description: '只返回未读邮件' }),
+  since: sinceField,
+  extract: extractField
+}, { requireAnyOf: ['address', 'handle'], passthrough: true }));
+
+export const emailContentBody = s.named('EmailContentRequest', s.object<EmailContentRequest>({
+  ...mailboxFields,
+  id: s.string({ minLength: 1, description: '邮件 ID（来自邮件列表）' }),
+  extract: extractField
+}, { required: ['id'], requireAnyOf: ['address', 'handle'], passthrough: true }));
+
+export const waitEmailBody = s.named('WaitEmailRequest', s.object<EmailWaitRequest>({
+  ...mailboxFields,
+  ...filterFields,
+  since: s.string({ format: 'date-time', description: '只匹配此时间之后收到的邮件；不传时只匹配请求开始后收到的新邮件（开始时已在收件箱中的邮件会被忽略）' }),
+  timeout: s.number({
+    min: 1,
+    max: WAIT_MAX_SECONDS,
+    description: `最长等待时间（秒），默认 ${WAIT_DEFAULT_SECONDS}`,
+    example: WAIT_DEFAULT_SECONDS
+  })
+}, { requireAnyOf: ['address', 'handle'], passthrough: true }));
+
+export const inboxStreamQuery = s.object<MailboxRequest>(mailboxFields, {
+  requireAnyOf: ['address', 'handle'],
+  passthrough: true
+});
+
+export const createWebhookBody = s.named('CreateWebhookRequest', s.object<CreateWebhookRequest>({
+  ...mailboxFields,
+  url: s.string({ format: 'uri', description: '接收推送的地址（http/https）', example: 'https://example.com/hooks/mail' }),
+  secret: s.string({ description: '签名密钥，不传则自动生成' }),
+  filters: s.object(filterFields, { description: '只推送匹配的邮件' })
+}, { required: ['url'], requireAnyOf: ['address', 'handle'], passthrough: true }));
+
+const rateLimit = s.object({
+  requests: s.number({ positive: true, description: '时间窗口内允许的请求数' }),
+  window: s.number({ positive: true, description: '时间窗口（秒）' })
+});
+
+// 字段的取值范围由配置校验检查，未知字段由管理服务给出可修改的字段列表
+export const updateChannelBody = s.named('UpdateChannelRequest', s.object({
+  enabled: s.boolean(),
+  priority: s.number({ min: 1, description: '优先级，数字越小越优先' }),
+  timeout: s.number({ min: 1000, description: '请求超时（毫秒）' }),
+  retries: s.number({ min: 0, integer: true }),
+  rateLimit
+}, { passthrough: true }));
+
+// ---- 响应 ----
+
+const dateTime = (description?: string) => s.string({ format: 'date-time', description });
+
+const contact = s.named('EmailContact', s.object({
+  email: s.string(),
+  name: s.string()
+}, { required: ['email'] }));
+
+const link = s.named('ExtractedLink', s.object({
+  url: s.string({ format: 'uri' }),
+  text: s.string({ description: '锚文本' })
+}, { required: ['url', 'text'] }));
+
+const extraction = s.named('EmailExtraction', s.object({
+  codes: s.array(s.object({
+    code: s.string({ example: '123456' }),
+    type: s.oneOf(['numeric', 'alphanumeric'] as const),
+    confidence: s.number({ min: 0, max: 1, description: '越高越可能是验证码' })
+  }, { required: ['code', 'type', 'confidence'] })),
+  links: s.array(link),
+  verificationLink: link
+}, { required: ['codes', 'links'] }));
+
+export const emailMessage = s.named('EmailMessage', s.object({
+  id: s.string(),
+  from: contact,
+  to: s.array(contact),
+  cc: s.array(contact),
+  bcc: s.array(contact),
+  subject: s.string(),
+  textContent: s.string(),
+  htmlContent: s.string(),
+  attachments: s.array(s.named('EmailAttachment', s.object({
+    id: s.string(),
+    filename: s.string(),
+    contentType: s.string(),
+    size: s.number({ integer: true }),
+    downloadUrl: s.string({ format: 'uri' }),
+    inline: s.boolean(),
+    contentId: s.string()
+  }, { required: ['id', 'filename', 'contentType', 'size'] }))),
+  receivedAt: dateTime(),
+  isRead: s.boolean(),
+  size: s.number({ integer: true }),
+  provider: s.string(),
+  messageId: s.string(),
+  inReplyTo: s.string(),
+  references: s.array(s.string()),
+  headers: s.record(s.string()),
+  extracted: extraction
+}, { required: ['id', 'from', 'to', 'subject', 'receivedAt', 'isRead', 'provider'] }));
+
+export const createdMailbox = s.named('Mailbox', s.object({
+  address: s.string({ example: 'abc123@somoj.com' }),
+  domain: s.string({ example: 'somoj.com' }),
+  username: s.string({ example: 'abc123' }),
+  expiresAt: dateTime(),
+  provider: s.string({ example: 'mailtm' }),
+  recoveryKey: s.string(),
+  accessToken: s.string({ description: '后续查询邮件时需要（部分提供者）' }),
+  handle: s.string({ description: '邮箱句柄，配置 TEMPMAILHUB_HANDLE_SECRET 时返回' })
+}, { required: ['address', 'domain', 'username', 'provider'] }));
+
+export const webhook = s.named('Webhook', s.object({
+  id: s.string(),
+  address: s.string(),
+  provider: s.string(),
+  url: s.string({ format: 'uri' }),
+  secret: s.string({ description: '用于校验推送签名（X-TempMailHub-Signature）' }),
+  filters: s.object(filterFields),
+  createdAt: dateTime(),
+  expiresAt: dateTime('邮箱过期时间，未知时为注册后 24 小时'),
+  lastDeliveryAt: dateTime(),
+  lastError: s.string()
+}, { required: ['id', 'address', 'provider', 'url', 'secret', 'createdAt', 'expiresAt'] }));
+
+const channelStats = s.named('ChannelStats', s.object({
+  totalRequests: s.number({ integer: true }),
+  successfulRequests: s.number({ integer: true }),
+  failedRequests: s.number({ integer: true }),
+  averageResponseTime: s.number({ description: '最近 5 分钟成功调用的平均耗时（毫秒）' }),
+  lastRequestTime: dateTime(),
+  errorsToday: s.number({ integer: true }),
+  requestsToday: s.number({ integer: true })
+}));
+
+export const providersStats = s.record(channelStats, { description: '按提供者名称索引' });
+
+export const providersHealth = s.record(s.named('ChannelHealth', s.object({
+  status: s.oneOf(Object.values(ChannelStatus)),
+  lastChecked: dateTime(),
+  responseTime: s.number(),
+  errorCount: s.number({ integer: true }),
+  successRate: s.number(),
+  lastError: s.string(),
+  uptime: s.number({ description: '正常运行时间百分比' }),
+  circuit: s.object({
+    state: s.oneOf(Object.values(CircuitState)),
+    consecutiveFailures: s.number({ integer: true }),
+    lastErrorType: s.oneOf(Object.values(ChannelErrorType)),
+    openedAt: dateTime(),
+    retryAt: dateTime('熔断结束、进入半开状态的时间')
+  }, { description: '熔断器状态' }),
+  rateLimit: s.object({
+    limit: s.number(),
+    remaining: s.number(),
+    retryAfter: s.number()
+  }, { description: '本地限流状态' })
+})), { description: '按提供者名称索引' });
+
+const usageCounter = s.object({
+  used: s.number({ integer: true }),
+  limit: s.number({ integer: true }),
+  remaining: s.number({ integer: true })
+}, { required: ['used'] });
+
+const periodUsage = s.object({
+  period: s.string({ example: '2024-06-01' }),
+  resetAt: dateTime(),
+  mailboxes: usageCounter,
+  messages: usageCounter
+});
+
+export const usage = s.named('Usage', s.object({
+  key: s.object({ id: s.string(), label: s.string() }),
+  daily: periodUsage,
+  monthly: periodUsage,
+  providers: s.record(channelStats, { description: '当前 API Key 在各提供者上的调用统计（仅 admin）' })
+}));
+
+export const channelInfo = s.named('ChannelInfo', s.object({
+  name: s.string(),
+  config: s.any({ description: '渠道配置（apiKey 已隐藏）' }),
+  available: s.boolean({ description: '熔断器未打开' }),
+  stats: channelStats
+}, { required: ['name', 'config', 'available'] }));
+
+export const reloadResult = s.object({
+  changes: s.array(s.object({
+    path: s.string({ example: 'channels.minmail.enabled' }),
+    before: s.any(),
+    after: s.any()
+  })),
+  channels: s.array(channelInfo)
+});
+
+export const serviceHealth = s.object({
+  version: s.string(),
+  status: s.string({ example: 'healthy' }),
+  uptime: s.number({ description: '进程运行时间（秒）' })
+});
+
+// ---- 错误 ----
+
+export const errorResponse = s.named('ErrorResponse', s.object({
+  success: s.boolean({ example: false }),
+  error: s.named('Error', s.object({
+    code: s.oneOf(Object.keys(ERROR_STATUS) as ErrorCode[]),
+    message: s.string(),
+    retryable: s.boolean({ description: '原样重试（或等待 retryAfter 秒后重试）可能成功' }),
+    provider: s.string(),
+    retryAfter: s.number({ description: '建议等待的秒数，同时通过 Retry-After 响应头返回' }),
+    details: s.array(s.object({
+      field: s.string({ description: '字段路径，如 filters.subject；涉及多个字段时为空', example: 'limit' }),
+      message: s.string({ example: 'must be <= 100, got 500' })
+    }, { required: ['message'] }), { description: '请求参数校验失败时逐个字段的错误' })
+  }, { required: ['code', 'message', 'retryable'] })),
+  timestamp: dateTime(),
+  provider: s.string()
+}, { required: ['success', 'error', 'timestamp'] }));
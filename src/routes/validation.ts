@@ -0,0 +1,48 @@
+/**
+ * 按接口定义校验请求参数
+ * 校验失败时抛出 ApiError（invalid_request），由路由中的 toFailure 转换为 400 响应，
+ * 错误结构的 details 中逐个列出出错的字段
+ */
+
+import type { Context } from 'hono';
+import { ApiError } from '../utils/errors.js';
+import { validate } from '../utils/schema.js';
+import type { Schema, SchemaIssue } from '../utils/schema.js';
+import type { RouteDefinition } from './definitions.js';
+
+function check<T>(target: Schema<T>, value: unknown, label: string): T {
+  const { value: result, issues } = validate(target, value);
+  if (issues.length > 0) {
+    throw new ApiError('invalid_request', `Invalid ${label}: ${formatIssues(issues)}`, {
+      details: issues.map(issue => ({ field: issue.path || undefined, message: issue.message }))
+    });
+  }
+  return result as T;
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => (issue.path ? `${issue.path} ${issue.message}` : issue.message)).join('; ');
+}
+
+/**
+ * 读取并校验 JSON 请求体
+ * 请求体不是合法 JSON 时抛出 SyntaxError；接口未要求请求体时，空请求体视为 {}
+ */
+export async function readBody<B>(c: Context, route: RouteDefinition<B, unknown>): Promise<B> {
+  const text = await c.req.text();
+  if (!text.trim()) {
+    if (route.bodyRequired) {
+      throw new ApiError('invalid_request', 'Request body is required');
+    }
+    return check(route.body!, {}, 'request body');
+  }
+
+  return check(route.body!, JSON.parse(text), 'request body');
+}
+
+/**
+ * 校验查询参数
+ */
+export function readQuery<Q>(c: Context, route: RouteDefinition<unknown, Q>): Q {
+  return check(route.query!, c.req.query(), 'query parameters');
+}
@@ -1,13 +1,24 @@
 import { serve } from '@hono/node-server';
 import app from './index.js';
+import { webhookService } from './services/webhook-service.js';
+import { createLogger } from './utils/logger.js';
 
-const port = parseInt(process.env.PORT || '8787');
+const logger = createLogger('server');
 
-console.log(`🚀 Starting TempMailHub server on port ${port}...`);
+const port = parseInt(process.env.PORT || '8787');
 
 serve({
   fetch: app.fetch,
   port
 });
 
-console.log(`✅ TempMailHub server is running at http://localhost:${port}`); 
\ No newline at end of file
+logger.info('TempMailHub server is running', { url: `http://localhost:${port}` });
+
+// 定时检查 webhook 并推送新邮件（秒）
+const webhookInterval = parseInt(process.env.TEMPMAILHUB_WEBHOOK_INTERVAL || '30') * 1000;
+
+setInterval(() => {
+  webhookService.runOnce({ env: process.env }).catch(error => {
+    logger.error('Webhook run failed', { error });
+  });
+}, webhookInterval); 
\ No newline at end of file
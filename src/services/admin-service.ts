@@ -0,0 +1,143 @@
+import type { ApiResponse, ChannelConfig, ConfigChange } from '../types/index.js';
+import type { ChannelStats } from '../types/channel.js';
+import { configManager } from '../config/index.js';
+import { providerManager } from '../providers/index.js';
+import { failure } from '../utils/errors.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('admin');
+
+type ChannelSettings = ChannelConfig[string];
+
+// 允许通过管理接口修改的渠道配置项
+const EDITABLE_FIELDS: readonly (keyof ChannelSettings)[] = ['enabled', 'priority', 'timeout', 'retries', 'rateLimit'];
+
+/**
+ * 渠道运行时状态
+ */
+export interface ChannelInfo {
+  name: string;
+  config: ChannelSettings;
+  available: boolean;   // 熔断器未打开
+  stats?: ChannelStats; // 提供者未注册时为空
+}
+
+/**
+ * 管理操作的结果，errors 为配置校验错误
+ */
+export type AdminResponse<T> = ApiResponse<T> & { errors?: string[] };
+
+/**
+ * 渠道运行时管理
+ * 修改只作用于当前实例的内存配置，重新加载配置后恢复为配置源中的值
+ */
+export class AdminService {
+  /**
+   * 获取所有渠道
+   */
+  listChannels(): ApiResponse<ChannelInfo[]> {
+    const channels = Object.keys(configManager.getConfig().channels)
+      .map(name => this.toChannelInfo(name)!);
+
+    return {
+      success: true,
+      data: channels,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 获取单个渠道
+   */
+  getChannel(name: string): AdminResponse<ChannelInfo> {
+    const channel = this.toChannelInfo(name);
+    if (!channel) {
+      return this.notFound(name);
+    }
+
+    return {
+      success: true,
+      data: channel,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 修改渠道配置，未通过校验时不生效
+   */
+  updateChannel(name: string, patch: Record<string, unknown>): AdminResponse<ChannelInfo> {
+    if (!configManager.getChannelConfig(name)) {
+      return this.notFound(name);
+    }
+
+    const unknownFields = Object.keys(patch).filter(field => !EDITABLE_FIELDS.includes(field as keyof ChannelSettings));
+    if (unknownFields.length > 0) {
+      return this.invalid([`Unknown channel fields: ${unknownFields.join(', ')}. Editable fields: ${EDITABLE_FIELDS.join(', ')}`]);
+    }
+
+    const result = configManager.updateChannelConfig(name, patch as Partial<ChannelSettings>);
+    if (!result.valid) {
+      return this.invalid(result.errors);
+    }
+
+    providerManager.applyChannelConfig(name);
+    logger.info('Channel updated', { channel: name, patch });
+    return this.getChannel(name);
+  }
+
+  /**
+   * 启用或禁用渠道
+   */
+  setChannelEnabled(name: string, enabled: boolean): AdminResponse<ChannelInfo> {
+    return this.updateChannel(name, { enabled });
+  }
+
+  /**
+   * 重新加载配置并重新初始化提供者，返回逐项的配置变化
+   */
+  async reload(): Promise<AdminResponse<{ changes: ConfigChange[]; channels: ChannelInfo[] }>> {
+    const result = await providerManager.reloadConfig();
+    if (!result.valid) {
+      return this.invalid(result.errors);
+    }
+
+    logger.info('Configuration reloaded', { changes: result.changes });
+    return {
+      success: true,
+      data: {
+        changes: result.changes,
+        channels: this.listChannels().data || []
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private toChannelInfo(name: string): ChannelInfo | undefined {
+    const config = configManager.getChannelConfig(name);
+    if (!config) {
+      return undefined;
+    }
+
+    return {
+      name,
+      // 不返回上游密钥
+      config: config.apiKey ? { ...config, apiKey: '***' } : config,
+      available: providerManager.isAvailable(name),
+      stats: providerManager.getProvider(name)?.getStats()
+    };
+  }
+
+  private notFound(name: string): AdminResponse<never> {
+    return failure('not_found', `Channel not found: ${name}`);
+  }
+
+  private invalid(errors: string[]): AdminResponse<never> {
+    return {
+      ...failure('invalid_request', `Invalid configuration: ${errors.join('; ')}`),
+      errors
+    };
+  }
+}
+
+// 导出单例实例
+export const adminService = new AdminService();
@@ -0,0 +1,242 @@
+/**
+ * API Key 注册表
+ * 密钥来源（可同时使用）：
+ * - TEMPMAILHUB_API_KEYS：JSON 数组，元素为 ApiKeyDefinition
+ * - TEMPMAILHUB_API_KEYS_FILE：同格式的 JSON 文件路径（Node.js / Docker / Deno）
+ * - TEMPMAILHUB_API_KEY：单个密钥，拥有 admin 权限（兼容旧配置）
+ */
+
+import type { ApiKeyDefinition, ApiKeyIdentity, ApiKeyScope } from '../types/index.js';
+import { getEnv } from '../utils/env.js';
+import { importFs } from '../utils/fs.js';
+import { constantTimeEqual, sha256, toHex } from '../utils/helpers.js';
+import type { EnvSource } from '../utils/env.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('api-keys');
+
+const API_KEY_SCOPES: readonly ApiKeyScope[] = ['mail:create', 'mail:read', 'admin'];
+const DEFAULT_SCOPES: ApiKeyScope[] = ['mail:create', 'mail:read'];
+// 密钥文件的修改检查间隔（毫秒），吊销或修改过期时间后最迟在此间隔后生效
+const KEYS_FILE_CHECK_INTERVAL = 5000;
+
+/**
+ * 认证结果
+ */
+export type ApiKeyAuthResult =
+  | { ok: true; identity: ApiKeyIdentity }
+  | { ok: false; reason: 'invalid' | 'expired' | 'revoked' | 'unavailable' };
+
+interface RegisteredKey {
+  digest: Uint8Array;
+  definition: ApiKeyDefinition;
+  identity: ApiKeyIdentity;
+}
+
+/**
+ * 判断身份是否拥有指定权限
+ */
+export function hasScope(identity: ApiKeyIdentity | undefined, scope: ApiKeyScope): boolean {
+  return !!identity && (identity.scopes.includes('admin') || identity.scopes.includes(scope));
+}
+
+/**
+ * 邮箱归属标识：配置了租户时按租户归属，否则按密钥归属
+ */
+export function getOwnerId(identity: ApiKeyIdentity): string {
+  return identity.tenant ? `tenant:${identity.tenant}` : `key:${identity.id}`;
+}
+
+export class ApiKeyRegistry {
+  // 按配置来源和密钥文件的修改时间缓存解析结果，任一变化时重新加载
+  private cache: {
+    source: string;
+    fileVersion?: number;
+    checkedAt: number;
+    keys: Promise<RegisteredKey[]>;
+  } | null = null;
+
+  /**
+   * 是否配置了任何密钥来源（未配置时认证关闭）
+   * 只看来源是否存在，不看解析出的密钥数量：来源配置有误时认证仍然开启并拒绝所有请求
+   */
+  async isEnabled(c: EnvSource): Promise<boolean> {
+    return ['TEMPMAILHUB_API_KEYS', 'TEMPMAILHUB_API_KEYS_FILE', 'TEMPMAILHUB_API_KEY'].some(name => !!getEnv(c, name));
+  }
+
+  /**
+   * 校验请求携带的密钥
+   * 与所有已注册密钥的 SHA-256 摘要逐一做定长比较，耗时与密钥内容无关
+   */
+  async authenticate(c: EnvSource, token: string): Promise<ApiKeyAuthResult> {
+    const keys = await this.load(c);
+    if (keys.length === 0) {
+      return { ok: false, reason: 'unavailable' };
+    }
+    const digest = await sha256(token);
+
+    let matched: RegisteredKey | undefined;
+    for (const entry of keys) {
+      if (constantTimeEqual(entry.digest, digest) && !matched) {
+        matched = entry;
+      }
+    }
+
+    if (!matched) {
+      return { ok: false, reason: 'invalid' };
+    }
+    if (matched.definition.revoked) {
+      return { ok: false, reason: 'revoked' };
+    }
+    if (matched.definition.expiresAt && new Date(matched.definition.expiresAt).getTime() <= Date.now()) {
+      return { ok: false, reason: 'expired' };
+    }
+
+    return { ok: true, identity: matched.identity };
+  }
+
+  private async load(c: EnvSource): Promise<RegisteredKey[]> {
+    const json = getEnv(c, 'TEMPMAILHUB_API_KEYS');
+    const file = getEnv(c, 'TEMPMAILHUB_API_KEYS_FILE');
+    const single = getEnv(c, 'TEMPMAILHUB_API_KEY');
+    const source = JSON.stringify([json, file, single]);
+    const now = Date.now();
+
+    const cache = this.cache;
+    if (cache && cache.source === source) {
+      if (!file || now - cache.checkedAt < KEYS_FILE_CHECK_INTERVAL) {
+        return cache.keys;
+      }
+      // 先更新检查时间，避免并发请求重复检查
+      cache.checkedAt = now;
+      const fileVersion = await getFileVersion(file);
+      if (fileVersion === cache.fileVersion || this.cache !== cache) {
+        return this.cache!.keys;
+      }
+      logger.info('API keys file changed, reloading', { path: file });
+      this.cache = { source, fileVersion, checkedAt: now, keys: this.build(json, file, single) };
+      return this.cache.keys;
+    }
+
+    const fileVersion = file ? await getFileVersion(file) : undefined;
+    this.cache = { source, fileVersion, checkedAt: now, keys: this.build(json, file, single) };
+    return this.cache.keys;
+  }
+
+  private async build(json?: string, file?: string, single?: string): Promise<RegisteredKey[]> {
+    const definitions: ApiKeyDefinition[] = [];
+
+    if (json) {
+      definitions.push(...parseDefinitions(json, 'TEMPMAILHUB_API_KEYS'));
+    }
+    if (file) {
+      try {
+        const fs = await importFs();
+        definitions.push(...parseDefinitions(await fs.readFile(file, 'utf-8'), file));
+      } catch (error) {
+        logger.warn('Failed to load API keys file', { path: file, error });
+      }
+    }
+    if (single) {
+      definitions.push({ key: single, id: 'default', label: 'default', scopes: ['admin'] });
+    }
+
+    const keys: RegisteredKey[] = [];
+    for (const definition of definitions) {
+      const digest = await sha256(definition.key);
+      const id = definition.id || `key_${toHex(digest).slice(0, 12)}`;
+      keys.push({
+        digest,
+        definition,
+        identity: {
+          id,
+          label: definition.label || id,
+          scopes: definition.scopes || DEFAULT_SCOPES,
+          expiresAt: definition.expiresAt,
+          rateLimit: definition.rateLimit,
+          providers: definition.providers,
+          tenant: definition.tenant,
+          quotas: definition.quotas
+        }
+      });
+    }
+
+    if (keys.length > 0) {
+      logger.info('API keys loaded', { count: keys.length });
+    } else if (json || file || single) {
+      logger.error('API key source is configured but contains no valid keys, all authenticated requests will be rejected');
+    }
+    return keys;
+  }
+}
+
+/**
+ * 解析并校验密钥定义，无效条目跳过并给出警告
+ */
+function parseDefinitions(content: string, source: string): ApiKeyDefinition[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    logger.warn('Invalid API key JSON', { source });
+    return [];
+  }
+
+  if (!Array.isArray(data)) {
+    logger.warn('API keys must be a JSON array', { source });
+    return [];
+  }
+
+  return data.filter((item, index): item is ApiKeyDefinition => {
+    const problem = validateDefinition(item);
+    if (problem) {
+      logger.warn('Skipping invalid API key', { source, index, problem });
+    }
+    return !problem;
+  });
+}
+
+function validateDefinition(item: any): string | undefined {
+  if (!item || typeof item !== 'object' || typeof item.key !== 'string' || item.key.length === 0) {
+    return 'key is required';
+  }
+  if (item.scopes !== undefined &&
+      (!Array.isArray(item.scopes) || item.scopes.some((scope: unknown) => !API_KEY_SCOPES.includes(scope as ApiKeyScope)))) {
+    return `scopes must be a subset of ${API_KEY_SCOPES.join(', ')}`;
+  }
+  if (item.expiresAt !== undefined && isNaN(new Date(item.expiresAt).getTime())) {
+    return 'expiresAt is not a valid date';
+  }
+  if (item.rateLimit !== undefined &&
+      !(item.rateLimit?.requests > 0 && item.rateLimit?.window > 0)) {
+    return 'rateLimit requires positive requests and window';
+  }
+  if (item.providers !== undefined && !Array.isArray(item.providers)) {
+    return 'providers must be an array';
+  }
+  if (item.tenant !== undefined && (typeof item.tenant !== 'string' || item.tenant.length === 0)) {
+    return 'tenant must be a non-empty string';
+  }
+  for (const period of ['daily', 'monthly']) {
+    const limits = item.quotas?.[period];
+    if (limits !== undefined &&
+        (typeof limits !== 'object' || Object.values(limits).some(value => !(typeof value === 'number' && value >= 0)))) {
+      return `quotas.${period} values must be non-negative numbers`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 密钥文件的修改时间，无法读取时返回 undefined
+ */
+async function getFileVersion(path: string): Promise<number | undefined> {
+  try {
+    const fs = await importFs();
+    return (await fs.stat(path)).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+export const apiKeyRegistry = new ApiKeyRegistry();
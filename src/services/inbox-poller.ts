@@ -0,0 +1,186 @@
+import type { EmailMessage, MailboxCredentials } from '../types/email.js';
+import type { IMailProvider } from '../interfaces/mail-provider.js';
+import type { ApiResponse } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('inbox');
+
+/**
+ * 收件箱事件
+ */
+export interface InboxEvent {
+  type: 'message' | 'error';
+  message?: EmailMessage;
+  error?: string;
+}
+
+export type InboxListener = (event: InboxEvent) => void;
+
+/**
+ * 被监听的收件箱
+ */
+export interface InboxTarget {
+  key: string;  // 去重键，相同键的订阅共享同一个轮询
+  address: string;
+  provider: IMailProvider;
+  credentials?: MailboxCredentials;
+  fetch: () => Promise<ApiResponse<EmailMessage[]>>;  // 拉取一次邮件列表
+}
+
+// 每个收件箱最多缓存的已见邮件数量（用于给后加入的订阅者补发）
+const MAX_BUFFERED_MESSAGES = 100;
+
+/**
+ * 单个收件箱的监听任务
+ * 同一收件箱的多个订阅者共享一个上游轮询循环（或推送订阅）
+ */
+class InboxWatch {
+  private readonly listeners = new Set<InboxListener>();
+  private readonly seenIds = new Set<string>();
+  private readonly messages: EmailMessage[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopPush: (() => void) | null = null;
+  private stopped = false;
+
+  constructor(private readonly target: InboxTarget, private readonly interval: number) {}
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  add(listener: InboxListener): void {
+    this.listeners.add(listener);
+
+    // 补发已见过的邮件
+    for (const message of this.messages) {
+      listener({ type: 'message', message });
+    }
+
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+  }
+
+  remove(listener: InboxListener): void {
+    this.listeners.delete(listener);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.stopPush) {
+      this.stopPush();
+      this.stopPush = null;
+    }
+  }
+
+  private start(): void {
+    const { provider, address, credentials } = this.target;
+
+    // 支持推送的渠道直接订阅，无需轮询
+    if (provider.capabilities.realTimeUpdates && provider.watchEmails) {
+      this.stopPush = provider.watchEmails(address, message => this.publish(message), credentials);
+      return;
+    }
+
+    void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    try {
+      const result = await this.target.fetch();
+      if (result.success && result.data) {
+        // 按接收时间顺序推送
+        const fresh = result.data
+          .filter(message => !this.seenIds.has(message.id))
+          .sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+        for (const message of fresh) {
+          this.publish(message);
+        }
+      } else {
+        this.emit({ type: 'error', error: result.error || 'Failed to get emails' });
+      }
+    } catch (error) {
+      this.emit({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!this.stopped) {
+      this.timer = setTimeout(() => void this.poll(), this.interval);
+    }
+  }
+
+  private publish(message: EmailMessage): void {
+    if (this.seenIds.has(message.id)) {
+      return;
+    }
+
+    this.seenIds.add(message.id);
+    this.messages.push(message);
+    if (this.messages.length > MAX_BUFFERED_MESSAGES) {
+      this.messages.shift();
+    }
+
+    this.emit({ type: 'message', message });
+  }
+
+  private emit(event: InboxEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('Inbox listener error', { error });
+      }
+    }
+  }
+}
+
+/**
+ * 收件箱共享轮询器
+ * 按订阅键（provider + 邮箱地址 + 凭据）去重，所有订阅者退出后停止上游轮询
+ */
+export class InboxPoller {
+  private readonly watches = new Map<string, InboxWatch>();
+
+  constructor(private readonly interval: number = 5000) {}
+
+  /**
+   * 订阅收件箱新邮件
+   * @returns 取消订阅函数
+   */
+  subscribe(target: InboxTarget, listener: InboxListener): () => void {
+    const { key } = target;
+
+    let watch = this.watches.get(key);
+    if (!watch) {
+      watch = new InboxWatch(target, this.interval);
+      this.watches.set(key, watch);
+    }
+    watch.add(listener);
+
+    return () => {
+      const current = this.watches.get(key);
+      if (!current) {
+        return;
+      }
+      current.remove(listener);
+      if (current.size === 0) {
+        current.stop();
+        this.watches.delete(key);
+      }
+    };
+  }
+
+  /**
+   * 当前正在监听的收件箱数量
+   */
+  get activeCount(): number {
+    return this.watches.size;
+  }
+}
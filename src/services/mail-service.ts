@@ -3,159 +3,411 @@ import type {
   EmailMessage,
   CreateEmailRequest,
   CreateEmailResponse,
-  EmailListQuery
+  EmailListQuery,
+  EmailWaitQuery,
+  EmailMatchFilters
 } from '../types/email.js';
-import type { ApiResponse } from '../types/index.js';
+import type { ApiKeyIdentity, ApiResponse } from '../types/index.js';
+import type { ChannelError, ChannelErrorType } from '../types/channel.js';
 import { providerManager } from '../providers/index.js';
-import { generateId } from '../utils/helpers.js';
+import { isProviderFailure } from '../providers/circuit-breaker.js';
+import { isSelectionStrategy, SELECTION_STRATEGIES } from '../providers/selection.js';
+import { configManager } from '../config/index.js';
+import { generateId, delay, simpleHash } from '../utils/helpers.js';
+import { sealMailboxHandle, openMailboxHandle } from '../utils/mailbox-handle.js';
+import { extractFromEmail } from '../utils/email-extractor.js';
+import { mailboxOwnerStore, sessionStore } from '../storage/index.js';
+import { getOwnerId, hasScope } from './api-key-registry.js';
+import { InboxPoller } from './inbox-poller.js';
+import type { InboxListener } from './inbox-poller.js';
+import type { IMailProvider } from '../interfaces/mail-provider.js';
+import { traceMethods, SpanStatusCode } from '../utils/tracing.js';
+import { ApiError, failure, fromChannelError, toFailure } from '../utils/errors.js';
+
+/**
+ * 邮件服务调用选项
+ */
+export interface MailRequestOptions {
+  handle?: string;        // 邮箱句柄（获取邮件详情时使用）
+  handleSecret?: string;  // 句柄签名密钥，未配置时不签发句柄
+  extract?: boolean;      // 是否附带验证码与链接提取结果
+  allowedProviders?: string[];  // 调用方允许使用的提供者（来自 API Key 配置）
+  identity?: ApiKeyIdentity;    // 调用方身份，用于记录和校验邮箱归属
+}
+
+/**
+ * 邮箱属于其他调用方
+ */
+export class MailboxAccessError extends ApiError {
+  constructor(message: string) {
+    super('forbidden', message);
+    this.name = 'MailboxAccessError';
+  }
+}
+
+/**
+ * 访问邮箱的结果，邮箱属于其他调用方时 code 为 forbidden
+ */
+export type MailboxResponse<T> = ApiResponse<T>;
+
+/**
+ * 收件箱订阅
+ */
+export interface InboxSubscription {
+  address: string;
+  provider: string;
+  unsubscribe: () => void;
+}
+
+/**
+ * 创建邮箱时对单个渠道的尝试记录
+ */
+export interface ProviderAttempt {
+  provider: string;
+  success: boolean;
+  error?: string;          // 失败原因
+  errorType?: ChannelErrorType;
+  retryAfter?: number;     // 被限流时建议等待的秒数
+  responseTime?: number;
+}
+
+/**
+ * 创建邮箱的结果，附带依次尝试过的渠道
+ */
+export type CreateEmailResult = MailboxResponse<CreateEmailResponse> & { attempts?: ProviderAttempt[] };
+
+/**
+ * 等待邮件的结果
+ */
+export type WaitForEmailResponse = MailboxResponse<EmailMessage> & { timedOut?: boolean };
+
+// 等待邮件的轮询参数
+export const WAIT_DEFAULT_SECONDS = 60;
+export const WAIT_MAX_SECONDS = 300;
+const WAIT_INITIAL_INTERVAL = 1000;
+const WAIT_MAX_INTERVAL = 10000;
+
+// 过滤条件正则的最大长度（正则会在等待和 webhook 轮询中反复执行）
+export const FILTER_PATTERN_MAX_LENGTH = 200;
+
+interface CompiledFilters {
+  from?: RegExp;
+  subject?: RegExp;
+  body?: RegExp;
+}
 
 /**
  * 邮件服务主类
  * 提供统一的邮件操作接口
  */
 export class MailService {
+  private readonly inboxPoller = new InboxPoller();
+
   /**
    * 创建临时邮箱
    */
-  async createEmail(request: CreateEmailRequest = {}): Promise<ApiResponse<CreateEmailResponse>> {
+  async createEmail(request: CreateEmailRequest = {}, options: MailRequestOptions = {}): Promise<CreateEmailResult> {
     try {
       // 根据请求选择合适的提供者
       const capabilities = {
         createEmail: true,
         customDomains: !!request.domain,
         customPrefix: !!request.prefix,
-        emailExpiration: !!request.expirationMinutes
+        maxExpirationMinutes: request.expirationMinutes
       };
 
-      const provider = request.provider ? 
-        providerManager.getProvider(request.provider) :
-        providerManager.getBestProvider(capabilities);
+      if (request.strategy !== undefined && !isSelectionStrategy(request.strategy)) {
+        return failure('invalid_request', `Invalid strategy: ${request.strategy}. Supported strategies: ${SELECTION_STRATEGIES.join(', ')}`);
+      }
 
-      if (!provider) {
-        return {
-          success: false,
-          error: 'No available email provider found',
-          timestamp: new Date().toISOString()
-        };
+      // 指定了提供者时不做故障转移
+      const explicitProvider = request.provider ? providerManager.getProvider(request.provider) : undefined;
+      if (request.provider && !explicitProvider) {
+        return failure('invalid_request', `Unknown provider: ${request.provider}`);
       }
+      const candidates = (request.provider ?
+        (explicitProvider ? [explicitProvider] : []) :
+        providerManager.getRankedProviders(capabilities, request.strategy))
+        .filter(provider => !options.allowedProviders || options.allowedProviders.includes(provider.name));
 
-      const response = await provider.createEmail(request);
+      if (candidates.length === 0) {
+        return failure('upstream_unavailable', 'No available email provider found');
+      }
 
-      if (response.success && response.data) {
-        return {
-          success: true,
-          data: response.data,
-          timestamp: new Date().toISOString(),
-          provider: provider.name
-        };
-      } else {
-        return {
+      // 地址完全由请求决定时，在访问上游之前校验归属
+      if (request.prefix && request.domain) {
+        await this.assertMailboxAccess(`${request.prefix}@${request.domain}`, options.identity);
+      }
+
+      const { failover } = configManager.getConfig().routing;
+      const maxAttempts = failover.enabled ? Math.max(1, failover.maxAttempts) : 1;
+      const attempts: ProviderAttempt[] = [];
+      let lastError: ChannelError | undefined;
+
+      for (const provider of candidates) {
+        if (attempts.length >= maxAttempts) {
+          break;
+        }
+        // 自动选择时，半开渠道已有探测请求则跳过（选择和调用之间可能被其他请求占用）
+        if (!request.provider && !providerManager.tryAcquire(provider.name)) {
+          continue;
+        }
+
+        const response = await provider.createEmail(request);
+        providerManager.recordResult(provider.name, response);
+
+        if (response.success && response.data) {
+          attempts.push({ provider: provider.name, success: true, responseTime: response.metadata.responseTime });
+          return {
+            success: true,
+            data: await this.toCreateEmailResponse(provider, response.data, options),
+            timestamp: new Date().toISOString(),
+            provider: provider.name,
+            attempts
+          };
+        }
+
+        lastError = response.error;
+        attempts.push({
+          provider: provider.name,
           success: false,
           error: response.error?.message || 'Failed to create email',
-          timestamp: new Date().toISOString(),
-          provider: provider.name
-        };
+          errorType: response.error?.type,
+          retryAfter: response.error?.retryAfter,
+          responseTime: response.metadata.responseTime
+        });
+
+        // 只有渠道本身不可用时才切换到下一个渠道
+        if (!response.error || !isProviderFailure(response.error)) {
+          break;
+        }
+      }
+
+      if (attempts.length === 0) {
+        return failure('upstream_unavailable', 'No available email provider found');
       }
 
-    } catch (error) {
       return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
+        ...fromChannelError(lastError, attempts[attempts.length - 1].provider, 'create', 'Failed to create email'),
+        attempts
       };
+
+    } catch (error) {
+      return this.toMailboxError(error);
     }
   }
 
   /**
    * 获取邮件列表
    */
-  async getEmails(query: EmailListQuery): Promise<ApiResponse<EmailMessage[]>> {
+  async getEmails(query: EmailListQuery, options: MailRequestOptions = {}): Promise<MailboxResponse<EmailMessage[]>> {
     try {
-      // 从邮箱地址推断提供者
-      const provider = query.provider ? 
-        providerManager.getProvider(query.provider) :
-        this.inferProviderFromEmail(query.address);
+      const resolved = await this.resolveMailbox(query, options);
+      query = resolved.query;
+      const provider = resolved.provider;
 
       if (!provider) {
-        return {
-          success: false,
-          error: 'No provider found for the email address',
-          timestamp: new Date().toISOString()
-        };
+        return failure('invalid_request', 'No provider found for the email address');
       }
 
       const response = await provider.getEmails(query);
+      providerManager.recordResult(provider.name, response);
 
       if (response.success && response.data) {
         return {
           success: true,
-          data: response.data,
+          data: options.extract ? response.data.map(email => this.withExtraction(email)) : response.data,
           timestamp: new Date().toISOString(),
           provider: provider.name
         };
       } else {
-        return {
-          success: false,
-          error: response.error?.message || 'Failed to get emails',
-          timestamp: new Date().toISOString(),
-          provider: provider.name
-        };
+        return fromChannelError(response.error, provider.name, 'list', 'Failed to get emails');
       }
 
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
-      };
+      return this.toMailboxError(error);
     }
   }
 
   /**
    * 获取邮件详情
    */
-  async getEmailContent(emailAddress: string, emailId: string, providerName?: string, accessToken?: string): Promise<ApiResponse<EmailMessage>> {
+  async getEmailContent(emailAddress: string, emailId: string, providerName?: string, accessToken?: string, options: MailRequestOptions = {}): Promise<MailboxResponse<EmailMessage>> {
     try {
+      // 通过句柄还原邮箱会话
+      let credentials;
+      let handleOwner: string | undefined;
+      if (options.handle) {
+        const session = await this.openHandle(options.handle, options.handleSecret);
+        emailAddress = session.address;
+        providerName = session.provider;
+        credentials = session.credentials;
+        handleOwner = session.owner;
+      }
+
+      await this.assertMailboxAccess(emailAddress, options.identity, handleOwner);
+
       const provider = providerName ? 
         providerManager.getProvider(providerName) :
         this.inferProviderFromEmail(emailAddress);
 
       if (!provider) {
-        return {
-          success: false,
-          error: 'No provider found for the email address',
-          timestamp: new Date().toISOString()
-        };
+        return failure('invalid_request', 'No provider found for the email address');
       }
+      this.assertProviderAllowed(provider.name, options);
 
-      const response = await provider.getEmailContent(emailAddress, emailId, accessToken);
+      const response = await provider.getEmailContent(emailAddress, emailId, accessToken, credentials);
+      providerManager.recordResult(provider.name, response);
 
       if (response.success && response.data) {
         return {
           success: true,
-          data: response.data,
+          data: options.extract ? this.withExtraction(response.data) : response.data,
           timestamp: new Date().toISOString(),
           provider: provider.name
         };
       } else {
-        return {
-          success: false,
-          error: response.error?.message || 'Failed to get email content',
-          timestamp: new Date().toISOString(),
-          provider: provider.name
-        };
+        return fromChannelError(response.error, provider.name, 'get', 'Failed to get email content');
       }
 
     } catch (error) {
+      return this.toMailboxError(error);
+    }
+  }
+
+
+
+  /**
+   * 等待符合条件的邮件
+   * 在服务端按退避间隔轮询 getEmails，返回第一封匹配的邮件
+   */
+  async waitForEmail(query: EmailWaitQuery, options: MailRequestOptions & { signal?: AbortSignal } = {}): Promise<WaitForEmailResponse> {
+    try {
+      const filters = this.compileFilters(query.filters);
+      const timeoutSeconds = Math.min(Math.max(query.timeout ?? WAIT_DEFAULT_SECONDS, 1), WAIT_MAX_SECONDS);
+      const deadline = Date.now() + timeoutSeconds * 1000;
+      const checkedIds = new Set<string>();
+      let interval = WAIT_INITIAL_INTERVAL;
+      let providerName: string | undefined;
+      let lastError: string | undefined;
+
+      // 没有指定 since 时只等待新邮件：请求开始时已在收件箱中的邮件视为已检查
+      // 按邮件 ID 而不是收件时间排除，不受上游与本机时钟偏差的影响
+      if (!query.since) {
+        const existing = await this.getEmails({ ...query, limit: 100, offset: 0 }, options);
+        if (!existing.success || !existing.data) {
+          return existing as WaitForEmailResponse;
+        }
+        existing.data.forEach(email => checkedIds.add(email.id));
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        const result = await this.matchEmails(query, filters, checkedIds, options, true);
+        providerName = result.provider || providerName;
+
+        if (result.success && result.data) {
+          if (result.data.length > 0) {
+            return {
+              success: true,
+              data: result.data[0],
+              timestamp: new Date().toISOString(),
+              provider: providerName
+            };
+          }
+        } else if (attempt === 0) {
+          // 第一次轮询就失败通常是请求参数问题，直接返回
+          return result as WaitForEmailResponse;
+        } else {
+          lastError = result.error;
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0 || options.signal?.aborted) {
+          break;
+        }
+
+        await delay(Math.min(interval, remaining));
+        interval = Math.min(interval * 1.5, WAIT_MAX_INTERVAL);
+      }
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
+        ...failure(
+          'wait_timeout',
+          `Timed out after ${timeoutSeconds}s waiting for a matching email` + (lastError ? ` (last error: ${lastError})` : ''),
+          { provider: providerName }
+        ),
+        timedOut: true
       };
+
+    } catch (error) {
+      return this.toMailboxError(error);
     }
   }
 
+  /**
+   * 拉取一次邮件列表，返回尚未检查过且符合过滤条件的邮件
+   * @param checkedIds 已检查过的邮件 ID，本次检查过的邮件会加入其中
+   */
+  async findMatchingEmails(query: EmailWaitQuery, checkedIds: Set<string>, options: MailRequestOptions = {}): Promise<MailboxResponse<EmailMessage[]>> {
+    try {
+      return await this.matchEmails(query, this.compileFilters(query.filters), checkedIds, options);
+    } catch (error) {
+      return this.toMailboxError(error);
+    }
+  }
 
+  /**
+   * 校验过滤条件，正则无效时抛出错误
+   */
+  validateFilters(filters?: EmailMatchFilters): void {
+    this.compileFilters(filters);
+  }
+
+  /**
+   * 订阅收件箱新邮件
+   * 同一收件箱（相同凭据）的多个订阅共享一个上游轮询循环
+   */
+  async watchInbox(query: EmailListQuery, listener: InboxListener, options: MailRequestOptions = {}): Promise<MailboxResponse<InboxSubscription>> {
+    try {
+      const { query: resolvedQuery, provider } = await this.resolveMailbox(query, options);
+
+      if (!provider) {
+        return failure('invalid_request', 'No provider found for the email address');
+      }
+
+      const pollQuery: EmailListQuery = {
+        ...resolvedQuery,
+        handle: undefined,
+        provider: provider.name,
+        limit: 100,
+        offset: 0
+      };
+      // 凭据不同的订阅者不共享轮询，避免无凭据的请求读到他人的邮件
+      const accessKey = simpleHash(JSON.stringify([pollQuery.accessToken, pollQuery.credentials]));
+
+      const unsubscribe = this.inboxPoller.subscribe({
+        key: `${provider.name}:${pollQuery.address.toLowerCase()}:${accessKey}`,
+        address: pollQuery.address,
+        provider,
+        credentials: pollQuery.credentials,
+        fetch: () => this.getEmails(pollQuery, options)
+      }, listener);
+
+      return {
+        success: true,
+        data: {
+          address: pollQuery.address,
+          provider: provider.name,
+          unsubscribe
+        },
+        timestamp: new Date().toISOString(),
+        provider: provider.name
+      };
+
+    } catch (error) {
+      return this.toMailboxError(error);
+    }
+  }
 
   /**
    * 获取所有提供者的健康状态
@@ -170,11 +422,7 @@ export class MailService {
         timestamp: new Date().toISOString()
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
-      };
+      return toFailure(error);
     }
   }
 
@@ -191,12 +439,229 @@ export class MailService {
         timestamp: new Date().toISOString()
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
+      return toFailure(error);
+    }
+  }
+
+  /**
+   * 生成返回给客户端的创建结果，会话凭据写入会话存储和句柄，不直接返回
+   */
+  private async toCreateEmailResponse(provider: IMailProvider, response: CreateEmailResponse, options: MailRequestOptions): Promise<CreateEmailResponse> {
+    const { credentials, ...data } = response;
+    const owner = options.identity ? getOwnerId(options.identity) : undefined;
+
+    if (owner) {
+      // 自定义前缀可能与他人已创建的邮箱重名，不能借此接管别人的邮箱
+      await this.assertMailboxAccess(data.address, options.identity);
+      await mailboxOwnerStore.bind(data.address, owner, data.expiresAt);
+    }
+
+    // 归属校验通过后才保存会话，供其他实例读取该邮箱
+    if (credentials) {
+      await sessionStore.save({
+        address: data.address,
+        provider: provider.name,
+        credentials,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt).toISOString() : undefined
+      });
+    }
+
+    if (options.handleSecret) {
+      data.handle = await sealMailboxHandle({
+        provider: provider.name,
+        address: data.address,
+        credentials: credentials || {},
+        expiresAt: data.expiresAt ? new Date(data.expiresAt).toISOString() : undefined,
+        issuedAt: new Date().toISOString(),
+        owner
+      }, options.handleSecret);
+    }
+
+    return data;
+  }
+
+  /**
+   * 编译匹配条件
+   */
+  private compileFilters(filters: EmailMatchFilters = {}): CompiledFilters {
+    const compiled: CompiledFilters = {};
+
+    for (const field of ['from', 'subject', 'body'] as const) {
+      const pattern = filters[field];
+      if (pattern) {
+        if (pattern.length > FILTER_PATTERN_MAX_LENGTH) {
+          throw new ApiError('invalid_request', `Invalid ${field} filter: must be at most ${FILTER_PATTERN_MAX_LENGTH} characters`);
+        }
+        if (hasAmbiguousRepetition(pattern)) {
+          throw new ApiError('invalid_request', `Invalid ${field} filter: repeated groups must not contain quantifiers or alternation`);
+        }
+        try {
+          compiled[field] = new RegExp(pattern, 'i');
+        } catch {
+          throw new ApiError('invalid_request', `Invalid ${field} filter: ${pattern}`);
+        }
+      }
+    }
+
+    return compiled;
+  }
+
+  /**
+   * 检查一次邮件列表
+   * @param firstOnly 找到第一封匹配的邮件后立即返回
+   */
+  private async matchEmails(
+    query: EmailWaitQuery,
+    filters: CompiledFilters,
+    checkedIds: Set<string>,
+    options: MailRequestOptions,
+    firstOnly: boolean = false
+  ): Promise<MailboxResponse<EmailMessage[]>> {
+    const result = await this.getEmails({ ...query, limit: 100, offset: 0 }, options);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const matches: EmailMessage[] = [];
+    for (const email of result.data) {
+      if (checkedIds.has(email.id)) {
+        continue;
+      }
+
+      const candidate = await this.resolveCandidate(email, filters, query, options);
+      if (candidate === undefined) {
+        // 获取详情失败，下一轮重试
+        continue;
+      }
+      checkedIds.add(email.id);
+
+      if (candidate) {
+        matches.push(candidate);
+        if (firstOnly) {
+          break;
+        }
+      }
+    }
+
+    return { ...result, data: matches };
+  }
+
+  /**
+   * 判断邮件是否匹配
+   * 返回匹配的邮件、null（不匹配）或 undefined（需要正文但获取详情失败）
+   */
+  private async resolveCandidate(
+    email: EmailMessage,
+    filters: CompiledFilters,
+    query: EmailWaitQuery,
+    options: MailRequestOptions
+  ): Promise<EmailMessage | null | undefined> {
+    const sender = `${email.from.name || ''} <${email.from.email}>`;
+    if (filters.from && !filters.from.test(sender)) {
+      return null;
+    }
+    if (filters.subject && !filters.subject.test(email.subject || '')) {
+      return null;
+    }
+    if (!filters.body) {
+      return email;
+    }
+
+    // 列表只返回摘要时，获取完整内容后再匹配正文
+    let message = email;
+    const isPreview = email.headers?.['X-Content-Type'] === 'preview' || (!email.textContent && !email.htmlContent);
+    if (isPreview) {
+      const detail = await this.getEmailContent(query.address, email.id, query.provider, query.accessToken, {
+        ...options,
+        handle: query.handle
+      });
+      if (!detail.success || !detail.data) {
+        return undefined;
+      }
+      message = detail.data;
+    }
+
+    const body = `${message.textContent || ''}\n${message.htmlContent || ''}`;
+    return filters.body.test(body) ? message : null;
+  }
+
+  /**
+   * 附加验证码与链接提取结果
+   */
+  private withExtraction(email: EmailMessage): EmailMessage {
+    return { ...email, extracted: extractFromEmail(email) };
+  }
+
+  /**
+   * 还原句柄中的会话并确定提供者
+   */
+  async resolveMailbox(query: EmailListQuery, options: MailRequestOptions): Promise<{ query: EmailListQuery; provider?: IMailProvider }> {
+    // 通过句柄还原邮箱会话
+    let handleOwner: string | undefined;
+    if (query.handle) {
+      const session = await this.openHandle(query.handle, options.handleSecret);
+      query = {
+        ...query,
+        address: session.address,
+        provider: session.provider,
+        credentials: session.credentials
       };
+      handleOwner = session.owner;
+    }
+
+    await this.assertMailboxAccess(query.address, options.identity, handleOwner);
+
+    // 从邮箱地址推断提供者
+    const provider = query.provider ?
+      providerManager.getProvider(query.provider) :
+      this.inferProviderFromEmail(query.address);
+    if (provider) {
+      this.assertProviderAllowed(provider.name, options);
     }
+
+    return { query, provider: provider || undefined };
+  }
+
+  /**
+   * 校验调用方是否可以使用提供者（API Key 配置了 providers 时）
+   */
+  private assertProviderAllowed(providerName: string, options: MailRequestOptions): void {
+    if (options.allowedProviders && !options.allowedProviders.includes(providerName)) {
+      throw new ApiError('forbidden', `API key is not allowed to use provider: ${providerName}`);
+    }
+  }
+
+  /**
+   * 校验调用方是否可以访问邮箱
+   * 邮箱归属优先取自句柄，其次取自归属存储；没有归属记录的邮箱（如未启用认证时创建的）不做限制，
+   * admin 权限可以访问所有邮箱
+   */
+  private async assertMailboxAccess(address: string, identity?: ApiKeyIdentity, handleOwner?: string): Promise<void> {
+    if (!identity || hasScope(identity, 'admin')) {
+      return;
+    }
+
+    const owner = handleOwner ?? (address ? (await mailboxOwnerStore.get(address))?.owner : undefined);
+    if (owner && owner !== getOwnerId(identity)) {
+      throw new MailboxAccessError('This mailbox belongs to another API key');
+    }
+  }
+
+  /**
+   * 访问邮箱失败时的响应，归属校验失败时 code 为 forbidden，句柄无效时为 mailbox_unauthorized
+   */
+  private toMailboxError(error: unknown): MailboxResponse<never> {
+    return toFailure(error);
+  }
+
+  /**
+   * 解析邮箱句柄
+   */
+  private async openHandle(handle: string, secret?: string) {
+    if (!secret) {
+      throw new ApiError('invalid_request', 'Mailbox handles are disabled because TEMPMAILHUB_HANDLE_SECRET is not set');
+    }
+    return openMailboxHandle(handle, secret);
   }
 
   /**
@@ -232,5 +697,51 @@ export class MailService {
   }
 }
 
+/**
+ * 检查正则中是否有被量词修饰、且内部带量词或分支的分组
+ * 如 (a+)+、(a|aa)+，匹配失败时回溯次数随输入长度指数增长
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+  // 转义字符和字符集中的符号不是量词
+  const source = pattern.replace(/\\./g, '_').replace(/\[[^\]]*\]/g, '_');
+  const groups: boolean[] = [];  // 各层未闭合的分组内是否出现过量词或分支
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const ambiguous = groups.pop();
+      if (ambiguous && i + 1 < source.length && '*+{'.includes(source[i + 1])) {
+        return true;
+      }
+      if (ambiguous && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ('*+{|'.includes(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// 主要方法的链路追踪，记录实际使用的提供者和失败原因
+traceMethods(
+  MailService.prototype,
+  'MailService',
+  ['createEmail', 'getEmails', 'getEmailContent', 'waitForEmail', 'findMatchingEmails', 'watchInbox'],
+  (span, result) => {
+    const response = result as CreateEmailResult & WaitForEmailResponse;
+    span.setAttributes({
+      'tempmailhub.provider': response.provider,
+      'tempmailhub.attempts': response.attempts?.length,
+      'tempmailhub.timed_out': response.timedOut
+    });
+    if (!response.success && !response.timedOut) {
+      span.setStatus(SpanStatusCode.ERROR, response.error);
+    }
+  }
+);
+
 // 导出单例实例
 export const mailService = new MailService(); 
\ No newline at end of file
@@ -0,0 +1,212 @@
+import type { ChannelRateLimitStatus, ChannelStats, CircuitSnapshot } from '../types/channel.js';
+import { CircuitState } from '../types/channel.js';
+import { MetricsRegistry } from '../utils/metrics.js';
+
+/**
+ * 渠道操作
+ */
+export type ProviderOperation = 'create' | 'list' | 'get' | 'delete';
+
+/**
+ * 渠道调用结果：success、错误类型（如 network_error），或被本地限流拒绝的 throttled
+ */
+export type ProviderOutcome = 'success' | 'throttled' | string;
+
+// 平均响应时间只统计最近一段时间内的调用，渠道长时间未使用时不再参考旧数据
+const LATENCY_WINDOW = 5 * 60 * 1000;
+const MAX_LATENCY_SAMPLES = 100;
+
+const PROVIDER_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const HTTP_BUCKETS = [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * 渠道在采集时刻的状态
+ */
+export interface ProviderState {
+  enabled: boolean;
+  circuit?: CircuitSnapshot;  // 熔断器未创建时为空，视为关闭
+  rateLimit?: ChannelRateLimitStatus;
+}
+
+interface ProviderActivity {
+  latencies: { at: number; duration: number }[];  // 最近成功调用的耗时（毫秒）
+  lastRequestTime?: Date;
+  day: string;          // UTC 日期，变化时重置当日计数
+  requestsToday: number;
+  errorsToday: number;
+}
+
+/**
+ * 服务指标
+ * 渠道统计信息（ChannelStats）也由这里记录的数据计算
+ */
+export class MetricsService {
+  readonly registry = new MetricsRegistry();
+
+  private readonly providerRequests = this.registry.counter(
+    'tempmailhub_provider_requests_total',
+    'Provider calls by operation and outcome',
+    ['provider', 'operation', 'outcome']
+  );
+  private readonly providerDuration = this.registry.histogram(
+    'tempmailhub_provider_request_duration_seconds',
+    'Provider call latency in seconds',
+    ['provider', 'operation'],
+    PROVIDER_BUCKETS
+  );
+  private readonly providerUp = this.registry.gauge(
+    'tempmailhub_provider_up',
+    'Result of the last provider connection test (1 = passed)',
+    ['provider']
+  );
+  private readonly providerHealthDuration = this.registry.gauge(
+    'tempmailhub_provider_health_check_duration_seconds',
+    'Duration of the last provider connection test in seconds',
+    ['provider']
+  );
+  private readonly providerEnabled = this.registry.gauge(
+    'tempmailhub_provider_enabled',
+    'Whether the provider is enabled in the configuration',
+    ['provider']
+  );
+  private readonly circuitState = this.registry.gauge(
+    'tempmailhub_provider_circuit_state',
+    'Circuit breaker state (1 for the current state)',
+    ['provider', 'state']
+  );
+  private readonly circuitFailures = this.registry.gauge(
+    'tempmailhub_provider_circuit_consecutive_failures',
+    'Consecutive failures counted by the circuit breaker',
+    ['provider']
+  );
+  private readonly rateLimitRemaining = this.registry.gauge(
+    'tempmailhub_provider_rate_limit_remaining',
+    'Remaining local rate limit tokens',
+    ['provider']
+  );
+  private readonly httpRequests = this.registry.counter(
+    'tempmailhub_http_requests_total',
+    'Inbound HTTP requests by route and status',
+    ['method', 'route', 'status']
+  );
+  private readonly httpDuration = this.registry.histogram(
+    'tempmailhub_http_request_duration_seconds',
+    'Inbound HTTP request latency in seconds',
+    ['method', 'route'],
+    HTTP_BUCKETS
+  );
+
+  private readonly activity = new Map<string, ProviderActivity>();
+
+  /**
+   * 记录一次渠道调用
+   * @param duration 耗时（毫秒）
+   */
+  recordProviderCall(provider: string, operation: ProviderOperation, outcome: ProviderOutcome, duration: number, now: Date = new Date()): void {
+    this.providerRequests.inc({ provider, operation, outcome });
+    // 被本地限流拒绝的调用没有访问上游，不计入耗时和统计信息
+    if (outcome === 'throttled') {
+      return;
+    }
+
+    this.providerDuration.observe({ provider, operation }, duration / 1000);
+
+    const activity = this.getActivity(provider, now);
+    activity.lastRequestTime = now;
+    activity.requestsToday++;
+    if (outcome === 'success') {
+      activity.latencies.push({ at: now.getTime(), duration });
+      if (activity.latencies.length > MAX_LATENCY_SAMPLES) {
+        activity.latencies.shift();
+      }
+    } else {
+      activity.errorsToday++;
+    }
+  }
+
+  /**
+   * 记录渠道连接测试结果
+   */
+  recordHealthCheck(provider: string, success: boolean, duration: number): void {
+    this.providerUp.set({ provider }, success ? 1 : 0);
+    this.providerHealthDuration.set({ provider }, duration / 1000);
+  }
+
+  /**
+   * 更新渠道的启用、熔断和限流状态
+   */
+  recordProviderState(provider: string, state: ProviderState): void {
+    this.providerEnabled.set({ provider }, state.enabled ? 1 : 0);
+    const current = state.circuit?.state || CircuitState.CLOSED;
+    for (const circuitState of Object.values(CircuitState)) {
+      this.circuitState.set({ provider, state: circuitState }, circuitState === current ? 1 : 0);
+    }
+    this.circuitFailures.set({ provider }, state.circuit?.consecutiveFailures || 0);
+    if (state.rateLimit) {
+      this.rateLimitRemaining.set({ provider }, state.rateLimit.remaining);
+    }
+  }
+
+  /**
+   * 添加采集回调，输出指标前调用（用于更新瞬时状态）
+   */
+  addCollector(collector: () => void): void {
+    this.registry.addCollector(collector);
+  }
+
+  /**
+   * 记录一次入站 HTTP 请求
+   * @param route 匹配的路由模式（如 /api/mail/list），避免按实际路径产生大量序列
+   */
+  recordHttpRequest(method: string, route: string, status: number, duration: number): void {
+    this.httpRequests.inc({ method, route, status: String(status) });
+    this.httpDuration.observe({ method, route }, duration / 1000);
+  }
+
+  /**
+   * 渠道统计信息
+   */
+  getProviderStats(provider: string, now: Date = new Date()): ChannelStats {
+    const successfulRequests = this.providerRequests.sum({ provider, outcome: 'success' });
+    const totalRequests = this.providerRequests.sum({ provider }) - this.providerRequests.sum({ provider, outcome: 'throttled' });
+
+    const activity = this.getActivity(provider, now);
+    const recent = activity.latencies.filter(sample => now.getTime() - sample.at <= LATENCY_WINDOW);
+
+    return {
+      totalRequests,
+      successfulRequests,
+      failedRequests: totalRequests - successfulRequests,
+      averageResponseTime: recent.length > 0
+        ? Math.round(recent.reduce((total, sample) => total + sample.duration, 0) / recent.length)
+        : 0,
+      lastRequestTime: activity.lastRequestTime,
+      requestsToday: activity.requestsToday,
+      errorsToday: activity.errorsToday
+    };
+  }
+
+  /**
+   * 输出 Prometheus 文本格式
+   */
+  render(): string {
+    return this.registry.render();
+  }
+
+  private getActivity(provider: string, now: Date): ProviderActivity {
+    const day = now.toISOString().slice(0, 10);
+    let activity = this.activity.get(provider);
+    if (!activity) {
+      activity = { latencies: [], day, requestsToday: 0, errorsToday: 0 };
+      this.activity.set(provider, activity);
+    } else if (activity.day !== day) {
+      activity.day = day;
+      activity.requestsToday = 0;
+      activity.errorsToday = 0;
+    }
+    return activity;
+  }
+}
+
+// 导出单例实例
+export const metricsService = new MetricsService();
@@ -0,0 +1,306 @@
+import type { ApiKeyIdentity, UsageLimits } from '../types/index.js';
+import type { ChannelStats } from '../types/channel.js';
+import { getStorage } from '../storage/index.js';
+
+/**
+ * 计量项
+ */
+export type UsageMetric = keyof UsageLimits;
+
+/**
+ * 统计周期
+ */
+export type UsagePeriod = 'daily' | 'monthly';
+
+/**
+ * 单个计量项的用量
+ */
+export interface UsageCounter {
+  used: number;
+  limit?: number;      // 未设置额度时为空
+  remaining?: number;
+}
+
+/**
+ * 一个统计周期内的用量
+ */
+export interface PeriodUsage {
+  period: string;      // 2024-01-31 或 2024-01（UTC）
+  resetAt: string;     // 下个周期开始时间
+  mailboxes: UsageCounter;
+  messages: UsageCounter;
+}
+
+/**
+ * 额度检查结果
+ */
+export interface QuotaCheck {
+  allowed: boolean;
+  period?: UsagePeriod;  // 超出额度的周期
+  limit?: number;
+  retryAfter?: number;   // 距离额度重置的秒数
+}
+
+/**
+ * 预留的用量，请求失败或实际用量较少时通过 release 归还
+ */
+export interface QuotaReservation extends QuotaCheck {
+  amount: number;        // 预留的数量，未通过时为 0
+  reservedAt: Date;      // 预留时间，归还时计入同一统计周期
+}
+
+type StoredUsage = Partial<Record<UsageMetric, number>>;
+
+/**
+ * 调用方在单个提供者上的调用计数
+ */
+interface StoredProviderUsage {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  totalResponseTime: number;  // 成功调用的累计耗时（毫秒）
+  lastRequestTime?: string;
+  day: string;                // requestsToday / errorsToday 对应的日期（UTC）
+  requestsToday: number;
+  errorsToday: number;
+}
+
+const PERIODS: readonly UsagePeriod[] = ['daily', 'monthly'];
+
+/**
+ * 按 API Key 统计用量并执行每日 / 每月额度
+ * 计数保存在配置的存储后端中，使用文件、Cloudflare KV 或 Deno KV 时重启后保留
+ */
+export class UsageService {
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * 检查本次请求是否还在额度内
+   */
+  async check(identity: ApiKeyIdentity | undefined, metric: UsageMetric, now: Date = new Date()): Promise<QuotaCheck> {
+    if (!identity?.quotas) {
+      return { allowed: true };
+    }
+
+    for (const period of PERIODS) {
+      const limit = identity.quotas[period]?.[metric];
+      if (limit === undefined) {
+        continue;
+      }
+
+      const usage = await this.read(identity.id, period, now);
+      if ((usage[metric] || 0) >= limit) {
+        return {
+          allowed: false,
+          period,
+          limit,
+          retryAfter: Math.ceil((periodEnd(period, now).getTime() - now.getTime()) / 1000)
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * 在访问上游之前预留用量：已用量加上本次数量不超过额度时立即计入
+   * @param partial 剩余额度不足 amount 时按剩余额度预留（至少为 1），用于按页返回邮件的接口
+   */
+  async reserve(
+    identity: ApiKeyIdentity | undefined,
+    metric: UsageMetric,
+    amount: number = 1,
+    options: { partial?: boolean } = {},
+    now: Date = new Date()
+  ): Promise<QuotaReservation> {
+    if (!identity) {
+      return { allowed: true, amount, reservedAt: now };
+    }
+
+    return this.serialize(identity.id, async () => {
+      let granted = amount;
+      for (const period of PERIODS) {
+        const limit = identity.quotas?.[period]?.[metric];
+        if (limit === undefined) {
+          continue;
+        }
+
+        const remaining = limit - ((await this.read(identity.id, period, now))[metric] || 0);
+        if (remaining < (options.partial ? 1 : amount)) {
+          return {
+            allowed: false,
+            period,
+            limit,
+            retryAfter: Math.ceil((periodEnd(period, now).getTime() - now.getTime()) / 1000),
+            amount: 0,
+            reservedAt: now
+          };
+        }
+        granted = Math.min(granted, remaining);
+      }
+
+      await this.add(identity.id, metric, granted, now);
+      return { allowed: true, amount: granted, reservedAt: now };
+    });
+  }
+
+  /**
+   * 归还预留中没有用到的部分
+   * @param used 实际用量，请求失败时为 0
+   */
+  async release(identity: ApiKeyIdentity | undefined, metric: UsageMetric, reservation: QuotaReservation, used: number = 0): Promise<void> {
+    const unused = reservation.amount - used;
+    if (!identity || !reservation.allowed || unused <= 0) {
+      return;
+    }
+    await this.serialize(identity.id, () => this.add(identity.id, metric, -unused, reservation.reservedAt));
+  }
+
+  /**
+   * 记录用量
+   */
+  async record(identity: ApiKeyIdentity | undefined, metric: UsageMetric, amount: number = 1, now: Date = new Date()): Promise<void> {
+    if (!identity || amount <= 0) {
+      return;
+    }
+    await this.serialize(identity.id, () => this.add(identity.id, metric, amount, now));
+  }
+
+  /**
+   * 记录调用方对提供者的一次调用
+   */
+  async recordProviderCall(
+    identity: ApiKeyIdentity | undefined,
+    provider: string,
+    success: boolean,
+    responseTime: number,
+    now: Date = new Date()
+  ): Promise<void> {
+    if (!identity) {
+      return;
+    }
+    await this.serialize(identity.id, () => this.addProviderCall(identity.id, provider, success, responseTime, now));
+  }
+
+  private async addProviderCall(keyId: string, provider: string, success: boolean, responseTime: number, now: Date): Promise<void> {
+    const key = this.providersKey(keyId);
+    const usage = (await getStorage().get<Record<string, StoredProviderUsage>>(key)) || {};
+    const day = periodId('daily', now);
+    const entry: StoredProviderUsage = usage[provider] ||
+      { totalRequests: 0, successfulRequests: 0, failedRequests: 0, totalResponseTime: 0, day, requestsToday: 0, errorsToday: 0 };
+    if (entry.day !== day) {
+      entry.day = day;
+      entry.requestsToday = 0;
+      entry.errorsToday = 0;
+    }
+
+    entry.totalRequests++;
+    entry.requestsToday++;
+    entry.lastRequestTime = now.toISOString();
+    if (success) {
+      entry.successfulRequests++;
+      entry.totalResponseTime += responseTime;
+    } else {
+      entry.failedRequests++;
+      entry.errorsToday++;
+    }
+
+    usage[provider] = entry;
+    await getStorage().set(key, usage);
+  }
+
+  /**
+   * 调用方在各提供者上的调用统计（ChannelStats 格式，平均耗时按全部成功调用计算）
+   */
+  async getProviderUsage(identity: ApiKeyIdentity, now: Date = new Date()): Promise<Record<string, ChannelStats>> {
+    const usage = (await getStorage().get<Record<string, StoredProviderUsage>>(this.providersKey(identity.id))) || {};
+    const today = periodId('daily', now);
+
+    return Object.fromEntries(Object.entries(usage).map(([provider, entry]) => [provider, {
+      totalRequests: entry.totalRequests,
+      successfulRequests: entry.successfulRequests,
+      failedRequests: entry.failedRequests,
+      averageResponseTime: entry.successfulRequests > 0 ? Math.round(entry.totalResponseTime / entry.successfulRequests) : 0,
+      lastRequestTime: entry.lastRequestTime ? new Date(entry.lastRequestTime) : undefined,
+      requestsToday: entry.day === today ? entry.requestsToday : 0,
+      errorsToday: entry.day === today ? entry.errorsToday : 0
+    }]));
+  }
+
+  /**
+   * 获取当前周期的用量报告
+   */
+  async getUsage(identity: ApiKeyIdentity, now: Date = new Date()): Promise<Record<UsagePeriod, PeriodUsage>> {
+    const report = {} as Record<UsagePeriod, PeriodUsage>;
+
+    for (const period of PERIODS) {
+      const usage = await this.read(identity.id, period, now);
+      const limits = identity.quotas?.[period];
+      report[period] = {
+        period: periodId(period, now),
+        resetAt: periodEnd(period, now).toISOString(),
+        mailboxes: toCounter(usage.mailboxes, limits?.mailboxes),
+        messages: toCounter(usage.messages, limits?.messages)
+      };
+    }
+
+    return report;
+  }
+
+  private async add(keyId: string, metric: UsageMetric, amount: number, now: Date): Promise<void> {
+    for (const period of PERIODS) {
+      const usage = await this.read(keyId, period, now);
+      usage[metric] = Math.max(0, (usage[metric] || 0) + amount);
+      // 多保留一个周期，便于查看上期用量
+      const end = periodEnd(period, now);
+      await getStorage().set(this.key(keyId, period, now), usage, {
+        expiresAt: periodEnd(period, end)
+      });
+    }
+  }
+
+  /**
+   * 同一调用方的用量读写在进程内依次执行，避免并发请求的读-改-写互相覆盖
+   * 存储后端没有原子递增，多个实例同时写入时仍可能少量超出额度
+   */
+  private serialize<T>(keyId: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.queues.get(keyId) || Promise.resolve()).catch(() => undefined).then(task);
+    this.queues.set(keyId, next);
+    next.finally(() => {
+      if (this.queues.get(keyId) === next) {
+        this.queues.delete(keyId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private async read(keyId: string, period: UsagePeriod, now: Date): Promise<StoredUsage> {
+    return (await getStorage().get<StoredUsage>(this.key(keyId, period, now))) || {};
+  }
+
+  private key(keyId: string, period: UsagePeriod, now: Date): string {
+    return `usage:${keyId}:${periodId(period, now)}`;
+  }
+
+  private providersKey(keyId: string): string {
+    return `usage:${keyId}:providers`;
+  }
+}
+
+function toCounter(used: number = 0, limit?: number): UsageCounter {
+  return limit === undefined ? { used } : { used, limit, remaining: Math.max(0, limit - used) };
+}
+
+function periodId(period: UsagePeriod, date: Date): string {
+  const iso = date.toISOString();
+  return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+function periodEnd(period: UsagePeriod, date: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+// 导出单例实例
+export const usageService = new UsageService();
@@ -0,0 +1,350 @@
+import type { CreateWebhookRequest, EmailMessage, WebhookRegistration } from '../types/email.js';
+import type { ApiKeyIdentity, ApiResponse } from '../types/index.js';
+import { configureStorage, getStorage, sessionStore } from '../storage/index.js';
+import type { EnvSource } from '../utils/env.js';
+import { generateId, isValidUrl, retry, toHex } from '../utils/helpers.js';
+import { tracer, SpanKind, formatTraceparent } from '../utils/tracing.js';
+import { failure, toFailure } from '../utils/errors.js';
+import { getOwnerId, hasScope } from './api-key-registry.js';
+import { mailService } from './mail-service.js';
+import { usageService } from './usage-service.js';
+import type { MailboxResponse, MailRequestOptions } from './mail-service.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('webhooks');
+
+// 注册列表的存储键
+const INDEX_KEY = 'webhook:index';
+// 未知邮箱过期时间时 webhook 的默认有效期
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+// 每个 webhook 最多记录的已处理邮件数量
+const MAX_CHECKED_IDS = 200;
+// 单次投递超时与失败重试次数
+const DELIVERY_TIMEOUT = 10000;
+const DELIVERY_RETRIES = 3;
+
+type WebhookInfo = Omit<WebhookRegistration, 'accessToken' | 'credentials' | 'checkedIds' | 'owner' | 'identity'>;
+
+/**
+ * 邮件 webhook 服务
+ * 注册信息保存在共享存储中，由定时任务（Workers Cron / Node 定时器）调用 runOnce 检查新邮件并推送
+ */
+export class WebhookService {
+  private running: Promise<void> | null = null;
+
+  /**
+   * 注册 webhook
+   * 注册时记录收件箱中已有的邮件，之后只推送新收到的邮件
+   */
+  async register(request: CreateWebhookRequest, options: Pick<MailRequestOptions, 'handleSecret' | 'allowedProviders' | 'identity'> = {}): Promise<MailboxResponse<WebhookInfo>> {
+    try {
+      if (!request.url || !/^https?:\/\//i.test(request.url) || !isValidUrl(request.url)) {
+        return failure('invalid_request', 'A valid http(s) webhook url is required');
+      }
+      if (isPrivateHost(new URL(request.url).hostname)) {
+        return failure('invalid_request', 'Webhook url must not point to a loopback, private or link-local address');
+      }
+
+      mailService.validateFilters(request.filters);
+
+      const { query, provider } = await mailService.resolveMailbox({
+        address: request.address || '',
+        provider: request.provider,
+        handle: request.handle,
+        accessToken: request.accessToken
+      }, options);
+
+      if (!provider) {
+        return failure('invalid_request', 'No provider found for the email address');
+      }
+
+      const existing = await mailService.getEmails({
+        ...query,
+        handle: undefined,
+        provider: provider.name,
+        limit: 100,
+        offset: 0
+      });
+      if (!existing.success || !existing.data) {
+        return { ...existing, data: undefined };
+      }
+
+      // 邮箱过期后 webhook 随之失效
+      const now = Date.now();
+      const session = await sessionStore.get(query.address);
+      const mailboxExpiry = session?.expiresAt ? new Date(session.expiresAt).getTime() : NaN;
+      const expiresAt = new Date(Math.min(now + DEFAULT_TTL, isNaN(mailboxExpiry) ? Infinity : mailboxExpiry));
+
+      const registration: WebhookRegistration = {
+        id: generateId(),
+        address: query.address,
+        provider: provider.name,
+        accessToken: query.accessToken,
+        credentials: query.credentials,
+        url: request.url,
+        secret: request.secret || generateSecret(),
+        filters: request.filters,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        checkedIds: existing.data.map(email => email.id),
+        owner: options.identity ? getOwnerId(options.identity) : undefined,
+        identity: options.identity
+      };
+
+      await this.save(registration);
+      await this.updateIndex(ids => [...ids, registration.id]);
+
+      return {
+        success: true,
+        data: this.toInfo(registration),
+        timestamp: new Date().toISOString(),
+        provider: provider.name
+      };
+
+    } catch (error) {
+      return toFailure(error);
+    }
+  }
+
+  /**
+   * 取消 webhook
+   * 只有注册它的调用方和 admin 权限可以取消；没有归属记录的 webhook（未启用认证时注册的）不做限制
+   */
+  async unregister(id: string, identity?: ApiKeyIdentity): Promise<ApiResponse<{ id: string }>> {
+    const registration = await getStorage().get<WebhookRegistration>(this.key(id));
+    if (!registration) {
+      return failure('not_found', 'Webhook not found');
+    }
+    if (identity && registration.owner && !hasScope(identity, 'admin') && registration.owner !== getOwnerId(identity)) {
+      return failure('forbidden', 'This webhook belongs to another API key');
+    }
+
+    await getStorage().delete(this.key(id));
+    await this.updateIndex(ids => ids.filter(item => item !== id));
+
+    return {
+      success: true,
+      data: { id },
+      timestamp: new Date().toISOString(),
+      provider: registration.provider
+    };
+  }
+
+  /**
+   * 检查所有 webhook 并推送新邮件
+   * 上一轮尚未结束时直接复用，避免定时器重叠执行
+   */
+  runOnce(source?: EnvSource): Promise<void> {
+    if (!this.running) {
+      this.running = this.checkAll(source).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async checkAll(source?: EnvSource): Promise<void> {
+    if (source) {
+      await configureStorage(source);
+    }
+
+    const store = getStorage();
+    const ids = await store.get<string[]>(INDEX_KEY) || [];
+    const removed = new Set<string>();
+
+    for (const id of ids) {
+      const registration = await store.get<WebhookRegistration>(this.key(id));
+      if (!registration || new Date(registration.expiresAt).getTime() <= Date.now()) {
+        removed.add(id);
+        continue;
+      }
+
+      try {
+        await this.check(registration);
+      } catch (error) {
+        logger.error('Webhook check failed', { webhookId: id, error });
+      }
+    }
+
+    if (removed.size > 0) {
+      await this.updateIndex(current => current.filter(id => !removed.has(id)));
+    }
+  }
+
+  private async check(registration: WebhookRegistration): Promise<void> {
+    const checkedIds = new Set(registration.checkedIds);
+    const result = await mailService.findMatchingEmails({
+      address: registration.address,
+      provider: registration.provider,
+      accessToken: registration.accessToken,
+      credentials: registration.credentials,
+      filters: registration.filters
+    }, checkedIds, {
+      // 每次推送都按注册时的 API Key 重新校验提供者范围和邮箱归属
+      allowedProviders: registration.identity?.providers,
+      identity: registration.identity
+    });
+
+    if (!result.success || !result.data) {
+      registration.lastError = result.error;
+      await this.save(registration);
+      return;
+    }
+
+    // 按接收时间顺序推送
+    const emails = result.data.sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+    for (let index = 0; index < emails.length; index++) {
+      const email = emails[index];
+      // 推送的邮件计入 messages 用量，额度用完后剩余邮件等额度重置后再推送
+      const quota = await usageService.reserve(registration.identity, 'messages');
+      if (!quota.allowed) {
+        emails.slice(index).forEach(pending => checkedIds.delete(pending.id));
+        registration.lastError = `${quota.period === 'daily' ? 'Daily' : 'Monthly'} messages quota of ${quota.limit} exceeded`;
+        break;
+      }
+
+      try {
+        await this.deliver(registration, email);
+        registration.lastDeliveryAt = new Date().toISOString();
+        registration.lastError = undefined;
+      } catch (error) {
+        // 不计入已处理和用量，下一轮重新推送
+        checkedIds.delete(email.id);
+        await usageService.release(registration.identity, 'messages', quota);
+        registration.lastError = error instanceof Error ? error.message : String(error);
+        logger.warn('Webhook delivery failed', { webhookId: registration.id, url: registration.url, error: registration.lastError });
+      }
+    }
+
+    registration.checkedIds = [...checkedIds].slice(-MAX_CHECKED_IDS);
+    await this.save(registration);
+  }
+
+  /**
+   * 推送单封邮件，失败时按指数退避重试
+   */
+  private async deliver(registration: WebhookRegistration, email: EmailMessage): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const body = JSON.stringify({
+      event: 'email.received',
+      webhookId: registration.id,
+      address: registration.address,
+      provider: registration.provider,
+      email,
+      timestamp
+    });
+    const signature = await signPayload(registration.secret, body);
+
+    // 通过 traceparent 把链路传给接收方
+    await tracer.withSpan('webhook.deliver', {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'tempmailhub.webhook_id': registration.id,
+        'tempmailhub.provider': registration.provider
+      }
+    }, span => retry(async () => {
+      const response = await fetch(registration.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'TempMailHub-Webhook/1.0',
+          'X-TempMailHub-Event': 'email.received',
+          'X-TempMailHub-Webhook-Id': registration.id,
+          'X-TempMailHub-Delivery': email.id,
+          'X-TempMailHub-Signature': `sha256=${signature}`,
+          'traceparent': formatTraceparent(span.context)
+        },
+        body,
+        redirect: 'manual',  // 不跟随重定向，避免绕过注册时的地址检查
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT)
+      });
+
+      span.setAttribute('http.response.status_code', response.status);
+      if (!response.ok) {
+        throw new Error(`Webhook endpoint responded with HTTP ${response.status}`);
+      }
+    }, { retries: DELIVERY_RETRIES, delay: 1000 }));
+  }
+
+  private async save(registration: WebhookRegistration): Promise<void> {
+    await getStorage().set(this.key(registration.id), registration, {
+      expiresAt: new Date(registration.expiresAt)
+    });
+  }
+
+  private async updateIndex(update: (ids: string[]) => string[]): Promise<void> {
+    const store = getStorage();
+    const ids = await store.get<string[]>(INDEX_KEY) || [];
+    await store.set(INDEX_KEY, update(ids));
+  }
+
+  private toInfo(registration: WebhookRegistration): WebhookInfo {
+    const { accessToken, credentials, checkedIds, owner, identity, ...info } = registration;
+    return info;
+  }
+
+  private key(id: string): string {
+    return `webhook:${id}`;
+  }
+}
+
+/**
+ * 是否为本机、内网、链路本地或云厂商元数据地址
+ * 只检查 URL 中的主机名，无法识别解析到内网地址的域名（Workers 等运行时不提供 DNS 解析）
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+    return true;
+  }
+
+  if (host.includes(':')) {
+    // IPv4 映射地址（URL 会规范化为 ::ffff:7f00:1 的形式）
+    const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mapped) {
+      const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+      return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+    }
+    if (host.startsWith('::ffff:')) {
+      return isPrivateIPv4(host.slice(7).split('.').map(Number));
+    }
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+
+  const octets = host.split('.').map(Number);
+  return octets.length === 4 && octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255) && isPrivateIPv4(octets);
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)  // 运营商级 NAT
+    || (a === 169 && b === 254)            // 链路本地，包括 169.254.169.254 元数据服务
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+}
+
+/**
+ * 生成随机签名密钥
+ */
+function generateSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * 计算 HMAC-SHA256 签名（十六进制）
+ */
+async function signPayload(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return toHex(new Uint8Array(signature));
+}
+
+// 导出单例实例
+export const webhookService = new WebhookService();
@@ -0,0 +1,87 @@
+/**
+ * 存储后端选择
+ * 根据 Hono c.env 绑定和环境变量选择共享存储后端：
+ * - TEMPMAILHUB_KV 绑定存在时使用 Cloudflare KV
+ * - TEMPMAILHUB_STORE=deno-kv 时使用 Deno KV
+ * - TEMPMAILHUB_STORE=file（或设置了 TEMPMAILHUB_STORE_FILE）时使用 JSON 文件
+ * - 其余情况使用内存存储
+ */
+
+import { getBinding, getEnv } from '../utils/env.js';
+import type { EnvSource } from '../utils/env.js';
+import {
+  MemoryKeyValueStore,
+  FileKeyValueStore,
+  CloudflareKVStore,
+  DenoKVStore
+} from './kv-store.js';
+import type { KeyValueStore, KVNamespaceLike } from './kv-store.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('storage');
+
+let storage: KeyValueStore = new MemoryKeyValueStore();
+let configured: Promise<KeyValueStore> | null = null;
+
+/**
+ * 获取当前存储后端
+ */
+export function getStorage(): KeyValueStore {
+  return storage;
+}
+
+/**
+ * 手动指定存储后端
+ */
+export function setStorage(store: KeyValueStore): void {
+  storage = store;
+  configured = Promise.resolve(store);
+}
+
+/**
+ * 根据请求上下文选择存储后端（每个实例只执行一次）
+ */
+export function configureStorage(c: EnvSource): Promise<KeyValueStore> {
+  if (!configured) {
+    configured = createStorage(c)
+      .catch(error => {
+        logger.warn('Failed to initialize configured store, falling back to memory', { error });
+        return new MemoryKeyValueStore();
+      })
+      .then(store => {
+        storage = store;
+        logger.info('Storage initialized', { kind: store.kind });
+        return store;
+      });
+  }
+  return configured;
+}
+
+async function createStorage(c: EnvSource): Promise<KeyValueStore> {
+  const kvNamespace = getBinding<KVNamespaceLike>(c, 'TEMPMAILHUB_KV');
+  if (kvNamespace && typeof kvNamespace.get === 'function' && typeof kvNamespace.put === 'function') {
+    return new CloudflareKVStore(kvNamespace);
+  }
+
+  const kind = getEnv(c, 'TEMPMAILHUB_STORE')?.toLowerCase();
+  const filePath = getEnv(c, 'TEMPMAILHUB_STORE_FILE');
+
+  if (kind === 'deno-kv') {
+    const deno = (globalThis as any).Deno;
+    if (!deno?.openKv) {
+      throw new Error('Deno KV is not available in this runtime');
+    }
+    return new DenoKVStore(await deno.openKv(filePath || undefined));
+  }
+
+  if (kind === 'file' || (!kind && filePath)) {
+    return new FileKeyValueStore(filePath || './data/tempmailhub-store.json');
+  }
+
+  return new MemoryKeyValueStore();
+}
+
+export * from './kv-store.js';
+export { SessionStore, sessionStore } from './session-store.js';
+export { MailboxOwnerStore, mailboxOwnerStore } from './mailbox-owner-store.js';
+export type { MailboxOwnerRecord } from './mailbox-owner-store.js';
@@ -0,0 +1,287 @@
+/**
+ * 键值存储抽象及各运行时后端实现
+ * 会话、计数器等需要跨实例共享的数据都通过此接口读写
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { importFs } from '../utils/fs.js';
+import { delay } from '../utils/helpers.js';
+
+const logger = createLogger('storage');
+
+type FsPromises = Awaited<ReturnType<typeof importFs>>;
+
+// 文件存储锁：等待上限、失效时限和重试间隔（毫秒）
+const LOCK_TIMEOUT = 15000;
+const LOCK_STALE_AFTER = 10000;
+const LOCK_RETRY_INTERVAL = 20;
+
+export interface KeyValueSetOptions {
+  expiresAt?: Date;  // 过期时间，不设置则永久保存
+}
+
+/**
+ * 键值存储接口
+ */
+export interface KeyValueStore {
+  readonly kind: string;
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T, options?: KeyValueSetOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface StoredEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+function isExpired(entry: StoredEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * 内存存储（默认后端，仅在单个实例内有效）
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  readonly kind: string = 'memory';
+  protected entries = new Map<string, StoredEntry>();
+  private lastSweep = Date.now();
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, options: KeyValueSetOptions = {}): Promise<void> {
+    this.entries.set(key, { value, expiresAt: options.expiresAt?.getTime() });
+    this.sweep();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 定期清理过期条目，避免长时间运行的进程内存增长
+   */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < 60000) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry, now)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * JSON 文件存储（Node.js / Docker / Deno）
+ * 多个实例可以共享同一个文件：读取前检查文件是否被其他实例修改过，
+ * 写入时持有锁文件，重新读取最新内容后只应用本次修改，再整体落盘
+ */
+export class FileKeyValueStore extends MemoryKeyValueStore {
+  readonly kind = 'file';
+  private version: string | undefined;  // 最后一次读取或写入时文件的修改时间和大小
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    await this.refresh();
+    return super.get<T>(key);
+  }
+
+  async set<T = unknown>(key: string, value: T, options: KeyValueSetOptions = {}): Promise<void> {
+    await this.update(() => super.set(key, value, options));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(() => super.delete(key));
+  }
+
+  /**
+   * 文件被其他实例修改过时重新加载
+   */
+  private async refresh(): Promise<void> {
+    const fs = await importFs();
+    if (await this.getVersion(fs) !== this.version) {
+      await this.reload(fs);
+    }
+  }
+
+  /**
+   * 在锁内基于文件的最新内容应用一次修改并落盘，同一进程内的写入按顺序执行
+   */
+  private update(apply: () => Promise<void>): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const fs = await importFs();
+      await this.withLock(fs, async () => {
+        await this.reload(fs);
+        await apply();
+
+        // 先写临时文件再重命名，避免进程中断时留下损坏的 JSON
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.entries)), 'utf-8');
+        await fs.rename(tmpPath, this.filePath);
+        this.version = await this.getVersion(fs);
+      });
+    }).catch(error => {
+      logger.warn('Failed to write store file', { path: this.filePath, error });
+    });
+    return this.writing;
+  }
+
+  private async reload(fs: FsPromises): Promise<void> {
+    // 先取版本再读取：读取期间文件再次变化时，下次访问会重新加载
+    this.version = await this.getVersion(fs);
+    let data: Record<string, StoredEntry> = {};
+    try {
+      data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as any)?.code !== 'ENOENT') {
+        logger.warn('Failed to load store file', { path: this.filePath, error });
+        return;
+      }
+    }
+
+    const now = Date.now();
+    this.entries.clear();
+    for (const [key, entry] of Object.entries(data)) {
+      if (!isExpired(entry, now)) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  private async getVersion(fs: FsPromises): Promise<string | undefined> {
+    try {
+      const stat = await fs.stat(this.filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 通过独占创建锁文件在多个实例之间互斥，持有者异常退出留下的锁超过时限后视为失效
+   */
+  private async withLock(fs: FsPromises, fn: () => Promise<void>): Promise<void> {
+    const dir = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+    if (dir) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as any)?.code !== 'EEXIST') {
+          throw error;
+        }
+        const stat = await fs.stat(lockPath).catch(() => undefined);
+        if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_AFTER) {
+          await fs.unlink(lockPath).catch(() => undefined);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for store lock ${lockPath}`);
+        }
+        await delay(LOCK_RETRY_INTERVAL);
+      }
+    }
+
+    try {
+      await fn();
+    } finally {
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Cloudflare KV Namespace 的最小接口
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expiration?: number; expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Cloudflare Workers KV 存储
+ */
+export class CloudflareKVStore implements KeyValueStore {
+  readonly kind = 'cloudflare-kv';
+
+  constructor(private readonly namespace: KVNamespaceLike) {}
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = await this.namespace.get(key, 'json') as StoredEntry | null;
+    return entry && !isExpired(entry) ? entry.value as T : undefined;
+  }
+
+  async set<T = unknown>(key: string, value: T, options: KeyValueSetOptions = {}): Promise<void> {
+    const entry: StoredEntry = { value, expiresAt: options.expiresAt?.getTime() };
+    const putOptions: { expirationTtl?: number } = {};
+    if (options.expiresAt) {
+      // KV 要求过期时间至少在 60 秒之后，精确过期由读取时判断
+      putOptions.expirationTtl = Math.max(60, Math.ceil((options.expiresAt.getTime() - Date.now()) / 1000));
+    }
+    await this.namespace.put(key, JSON.stringify(entry), putOptions);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+}
+
+/**
+ * Deno KV 的最小接口
+ */
+export interface DenoKvLike {
+  get(key: string[]): Promise<{ value: unknown }>;
+  set(key: string[], value: unknown, options?: { expireIn?: number }): Promise<unknown>;
+  delete(key: string[]): Promise<void>;
+}
+
+/**
+ * Deno KV 存储（Deno Deploy）
+ */
+export class DenoKVStore implements KeyValueStore {
+  readonly kind = 'deno-kv';
+
+  constructor(private readonly kv: DenoKvLike, private readonly prefix: string = 'tempmailhub') {}
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = (await this.kv.get([this.prefix, key])).value as StoredEntry | null;
+    return entry && !isExpired(entry) ? entry.value as T : undefined;
+  }
+
+  async set<T = unknown>(key: string, value: T, options: KeyValueSetOptions = {}): Promise<void> {
+    const entry: StoredEntry = { value, expiresAt: options.expiresAt?.getTime() };
+    // expireIn 只保证最终删除，精确过期由读取时判断
+    const expireIn = options.expiresAt ? Math.max(1, options.expiresAt.getTime() - Date.now()) : undefined;
+    await this.kv.set([this.prefix, key], entry, expireIn ? { expireIn } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete([this.prefix, key]);
+  }
+}
@@ -0,0 +1,48 @@
+import type { KeyValueStore } from './kv-store.js';
+import { getStorage } from './index.js';
+
+/**
+ * 邮箱归属记录
+ */
+export interface MailboxOwnerRecord {
+  owner: string;      // 创建邮箱的调用方（API Key 或租户）
+  createdAt: string;
+}
+
+/**
+ * 邮箱归属存储
+ * 启用 API Key 认证时记录每个邮箱由哪个调用方创建，其他调用方不能读取该邮箱
+ */
+export class MailboxOwnerStore {
+  private readonly prefix = 'owner:';
+
+  constructor(private readonly backend?: KeyValueStore) {}
+
+  /**
+   * 记录邮箱归属，过期时间与邮箱 expiresAt 一致
+   */
+  async bind(address: string, owner: string, expiresAt?: Date | string): Promise<void> {
+    const record: MailboxOwnerRecord = { owner, createdAt: new Date().toISOString() };
+    await this.getBackend().set(this.key(address), record, {
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    });
+  }
+
+  /**
+   * 获取邮箱归属，没有记录时返回 undefined
+   */
+  async get(address: string): Promise<MailboxOwnerRecord | undefined> {
+    return this.getBackend().get<MailboxOwnerRecord>(this.key(address));
+  }
+
+  private getBackend(): KeyValueStore {
+    return this.backend || getStorage();
+  }
+
+  private key(address: string): string {
+    return this.prefix + address.toLowerCase();
+  }
+}
+
+// 导出单例实例（使用当前配置的存储后端）
+export const mailboxOwnerStore = new MailboxOwnerStore();
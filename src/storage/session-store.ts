@@ -0,0 +1,48 @@
+import type { MailboxSession } from '../types/email.js';
+import type { KeyValueStore } from './kv-store.js';
+import { getStorage } from './index.js';
+
+/**
+ * 邮箱会话存储
+ * 创建邮箱的会话凭据由邮件服务在校验邮箱归属后按地址写入此处，而不是保存在实例私有的 Map 中，
+ * 多副本部署时 provider 可通过共享后端读取其他实例创建的邮箱
+ */
+export class SessionStore {
+  private readonly prefix = 'session:';
+
+  constructor(private readonly backend?: KeyValueStore) {}
+
+  /**
+   * 保存邮箱会话，过期时间与邮箱 expiresAt 一致
+   */
+  async save(session: MailboxSession): Promise<void> {
+    await this.getBackend().set(this.key(session.address), session, {
+      expiresAt: session.expiresAt ? new Date(session.expiresAt) : undefined
+    });
+  }
+
+  /**
+   * 获取邮箱会话
+   */
+  async get(address: string): Promise<MailboxSession | undefined> {
+    return this.getBackend().get<MailboxSession>(this.key(address));
+  }
+
+  /**
+   * 删除邮箱会话
+   */
+  async delete(address: string): Promise<void> {
+    await this.getBackend().delete(this.key(address));
+  }
+
+  private getBackend(): KeyValueStore {
+    return this.backend || getStorage();
+  }
+
+  private key(address: string): string {
+    return this.prefix + address.toLowerCase();
+  }
+}
+
+// 导出单例实例（使用当前配置的存储后端）
+export const sessionStore = new SessionStore();
@@ -16,7 +16,8 @@ export interface ChannelCapabilities {
   getEmailContent: boolean;
   customDomains: boolean;
   customPrefix: boolean;
-  emailExpiration: boolean;
+  emailExpiration: boolean;      // 邮箱会过期（有效期可能是固定的）
+  maxExpirationMinutes?: number; // 可通过 expirationMinutes 指定的最长有效期（分钟），不设置时不能指定有效期
   realTimeUpdates: boolean;
   attachmentSupport: boolean;
 }
@@ -49,6 +50,31 @@ export interface ChannelHealth {
   successRate: number;
   lastError?: string;
   uptime: number; // 正常运行时间百分比
+  circuit?: CircuitSnapshot; // 熔断器状态
+  rateLimit?: ChannelRateLimitStatus; // 本地限流状态
+}
+
+// 渠道本地限流状态
+export interface ChannelRateLimitStatus {
+  limit: number;       // 令牌桶容量
+  remaining: number;   // 剩余可用次数
+  retryAfter: number;  // 额度用完时距离下一次可用的秒数
+}
+
+// 熔断器状态
+export enum CircuitState {
+  CLOSED = 'closed',       // 正常放行
+  OPEN = 'open',           // 熔断中，不参与渠道选择
+  HALF_OPEN = 'half_open'  // 冷却结束，放行请求试探恢复情况
+}
+
+// 熔断器状态快照
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastErrorType?: ChannelErrorType;
+  openedAt?: Date;
+  retryAt?: Date;  // 熔断结束、进入半开状态的时间
 }
 
 // 渠道统计信息
@@ -79,6 +105,7 @@ export interface ChannelError extends Error {
   channelName: string;
   statusCode?: number;
   retryable: boolean;
+  retryAfter?: number; // 限流时建议等待的秒数
   timestamp: Date;
   context?: Record<string, any>;
 }
@@ -90,6 +117,7 @@ export interface ChannelResponseMetadata {
   requestId: string;
   cached?: boolean;
   retryCount?: number;
+  throttled?: boolean;  // 被本地限流拒绝，没有访问上游
 }
 
 // 渠道接口方法的响应类型
@@ -1,3 +1,5 @@
+import type { ApiKeyIdentity } from './index.js';
+
 // 邮件地址信息
 export interface EmailAddress {
   address: string;
@@ -29,6 +31,27 @@ export interface EmailMessage {
   inReplyTo?: string;
   references?: string[];
   headers?: Record<string, string>;
+  extracted?: EmailExtraction;  // 验证码与链接提取结果（请求时指定 extract 才返回）
+}
+
+// 提取出的候选验证码
+export interface ExtractedCode {
+  code: string;
+  type: 'numeric' | 'alphanumeric';
+  confidence: number;  // 0-1，越高越可能是验证码
+}
+
+// 邮件中的链接
+export interface ExtractedLink {
+  url: string;
+  text: string;  // 锚文本
+}
+
+// 验证码与链接提取结果
+export interface EmailExtraction {
+  codes: ExtractedCode[];
+  links: ExtractedLink[];
+  verificationLink?: ExtractedLink;  // 最可能的验证/登录链接
 }
 
 // 邮件联系人
@@ -48,17 +71,102 @@ export interface EmailAttachment {
   contentId?: string;
 }
 
+// 邮箱会话凭据（provider 私有的会话信息，如 token、sessionId 等）
+export type MailboxCredentials = Record<string, string>;
+
+// 邮箱会话（重建邮箱访问所需的全部信息）
+export interface MailboxSession {
+  address: string;
+  provider: string;
+  credentials: MailboxCredentials;
+  expiresAt?: string;
+}
+
 // 邮件列表查询参数
 export interface EmailListQuery {
   address: string;
   provider?: string;
   accessToken?: string;  // 可选的访问令牌，有些provider需要
+  handle?: string;  // 创建邮箱时返回的邮箱句柄
+  credentials?: MailboxCredentials;  // 从句柄中还原的会话凭据
   limit?: number;
   offset?: number;
   since?: Date;
   unreadOnly?: boolean;
 }
 
+// 指定邮箱的请求参数：address 或 handle 至少提供一个
+export interface MailboxRequest {
+  address?: string;
+  handle?: string;       // 创建邮箱时返回的邮箱句柄
+  provider?: string;
+  accessToken?: string;  // 部分提供者需要
+}
+
+// 获取邮件列表的请求体
+export interface EmailListRequest extends MailboxRequest {
+  limit?: number;
+  offset?: number;
+  unreadOnly?: boolean;
+  since?: string;     // ISO 8601 时间，只返回之后收到的邮件
+  extract?: boolean;  // 提取验证码与链接
+}
+
+// 获取邮件详情的请求体
+export interface EmailContentRequest extends MailboxRequest {
+  id: string;
+  extract?: boolean;
+}
+
+// 等待邮件的请求体
+export interface EmailWaitRequest extends MailboxRequest, EmailMatchFilters {
+  since?: string;
+  timeout?: number;  // 最长等待时间（秒）
+}
+
+// 等待邮件的匹配条件（正则表达式，不区分大小写）
+export interface EmailMatchFilters {
+  from?: string;     // 匹配发件人地址或名称
+  subject?: string;  // 匹配主题
+  body?: string;     // 匹配正文（文本或 HTML）
+}
+
+// 等待邮件的请求参数
+export interface EmailWaitQuery extends EmailListQuery {
+  timeout?: number;  // 最长等待时间（秒）
+  filters?: EmailMatchFilters;
+}
+
+// 注册 webhook 的请求参数
+export interface CreateWebhookRequest {
+  address?: string;
+  handle?: string;
+  provider?: string;
+  accessToken?: string;
+  url: string;        // 接收推送的地址（http/https）
+  secret?: string;    // 签名密钥，不传则自动生成
+  filters?: EmailMatchFilters;
+}
+
+// 已注册的 webhook
+export interface WebhookRegistration {
+  id: string;
+  address: string;
+  provider: string;
+  accessToken?: string;
+  credentials?: MailboxCredentials;
+  url: string;
+  secret: string;
+  filters?: EmailMatchFilters;
+  createdAt: string;
+  expiresAt: string;
+  checkedIds: string[];  // 已推送或不匹配的邮件 ID，推送失败的邮件下一轮重试
+  owner?: string;        // 注册 webhook 的调用方（启用 API Key 认证时）
+  identity?: ApiKeyIdentity;  // 注册时的调用方身份，推送的邮件计入其 messages 用量和额度
+  lastDeliveryAt?: string;
+  lastError?: string;
+}
+
 // 邮件统计信息
 export interface EmailStats {
   totalEmails: number;
@@ -70,12 +178,16 @@ export interface EmailStats {
   };
 }
 
+// 渠道选择策略
+export type SelectionStrategy = 'priority' | 'fastest' | 'round_robin' | 'random' | 'weighted';
+
 // 创建邮箱的请求参数
 export interface CreateEmailRequest {
   provider?: string;
   domain?: string;
   prefix?: string;
   expirationMinutes?: number;
+  strategy?: SelectionStrategy;  // 未指定 provider 时的渠道选择策略
 }
 
 // 创建邮箱的响应
@@ -87,4 +199,6 @@ export interface CreateEmailResponse {
   provider: string;
   recoveryKey?: string;
   accessToken?: string;
+  handle?: string;  // 加密签名的邮箱句柄，可用于后续查询
+  credentials?: MailboxCredentials;  // provider 内部会话凭据，仅用于生成句柄，不返回给客户端
 } 
\ No newline at end of file
@@ -1,8 +1,31 @@
+import type { SelectionStrategy } from './email.js';
+
 // 基础配置类型
 export interface Config {
   channels: ChannelConfig;
   server: ServerConfig;
   security: SecurityConfig;
+  routing: RoutingConfig;
+}
+
+// 配置源（配置文件、环境变量等）提供的覆盖项，各级字段均可省略
+export interface ConfigOverrides {
+  channels?: {
+    [key: string]: Partial<Omit<ChannelConfig[string], 'rateLimit'>> & {
+      rateLimit?: Partial<NonNullable<ChannelConfig[string]['rateLimit']>>;
+    };
+  };
+  server?: Partial<Omit<ServerConfig, 'cors'>> & {
+    cors?: Partial<NonNullable<ServerConfig['cors']>>;
+  };
+  security?: Partial<Omit<SecurityConfig, 'rateLimit'>> & {
+    rateLimit?: Partial<NonNullable<SecurityConfig['rateLimit']>>;
+  };
+  routing?: {
+    strategy?: SelectionStrategy;
+    failover?: Partial<RoutingConfig['failover']>;
+    circuitBreaker?: Partial<RoutingConfig['circuitBreaker']>;
+  };
 }
 
 // 渠道配置
@@ -16,6 +39,9 @@ export interface ChannelConfig {
     };
     timeout?: number; // 请求超时时间（毫秒）
     retries?: number; // 重试次数
+    apiKey?: string;  // 上游服务的 API Key（如 ChatTempMail）
+    baseUrl?: string; // 覆盖上游服务地址（如使用镜像或代理）
+    domains?: string[]; // 允许使用的邮箱域名，不设置则不限制
   };
 }
 
@@ -23,13 +49,22 @@ export interface ChannelConfig {
 export interface ServerConfig {
   port?: number;
   host?: string;
-  cors?: {
-    origin: string[];
-    methods: string[];
-    headers: string[];
+  cors?: CorsPolicy & {
+    routes?: Record<string, Partial<CorsPolicy>>; // 按路径覆盖，如 "/api/admin/*"，最长匹配优先
   };
 }
 
+// CORS / CSRF 策略
+export interface CorsPolicy {
+  origin: string[];          // 允许的来源，支持 "*" 和通配子域名（https://*.example.com）
+  methods: string[];
+  headers: string[];
+  credentials?: boolean;     // 允许携带 Cookie 等凭据，不能与 "*" 同时使用
+  exposeHeaders?: string[];  // 浏览器脚本可读取的响应头
+  maxAge?: number;           // 预检结果缓存时间（秒）
+  csrf?: boolean;            // 拒绝来源不在允许列表中的浏览器写请求
+}
+
 // 安全配置
 export interface SecurityConfig {
   apiKey?: string;
@@ -40,15 +75,125 @@ export interface SecurityConfig {
   };
 }
 
+// API Key 权限范围（admin 拥有全部权限）
+export type ApiKeyScope = 'mail:create' | 'mail:read' | 'admin';
+
+// API Key 定义（来自 TEMPMAILHUB_API_KEYS 或密钥文件）
+export interface ApiKeyDefinition {
+  key: string;
+  id?: string;              // 稳定标识，用于日志和配额，默认由密钥哈希生成
+  label?: string;
+  scopes?: ApiKeyScope[];   // 默认 mail:create + mail:read
+  expiresAt?: string;       // ISO 时间，过期后拒绝
+  revoked?: boolean;        // 已吊销
+  rateLimit?: {
+    requests: number;
+    window: number;         // 时间窗口（秒）
+  };
+  providers?: string[];     // 允许使用的提供商，不设置则不限制
+  tenant?: string;          // 所属租户，同一租户的密钥共享创建的邮箱
+  quotas?: {
+    daily?: UsageLimits;    // 按 UTC 自然日计算
+    monthly?: UsageLimits;  // 按 UTC 自然月计算
+  };
+}
+
+// 用量额度，不设置的项不限制
+export interface UsageLimits {
+  mailboxes?: number;       // 创建的邮箱数
+  messages?: number;        // 获取的邮件数
+}
+
+// 认证通过后附加到请求上下文的调用方身份（不含密钥本身）
+export interface ApiKeyIdentity {
+  id: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+  rateLimit?: ApiKeyDefinition['rateLimit'];
+  providers?: string[];
+  tenant?: string;
+  quotas?: ApiKeyDefinition['quotas'];
+}
+
+// 渠道路由配置
+export interface RoutingConfig {
+  strategy: SelectionStrategy;  // 默认的渠道选择策略
+  failover: {
+    enabled: boolean;
+    maxAttempts: number; // 创建邮箱时最多尝试的渠道数量
+  };
+  circuitBreaker: {
+    enabled: boolean;
+    failureThreshold: number;   // 连续失败多少次后熔断
+    cooldown: number;           // 熔断持续时间（秒）
+    rateLimitCooldown: number;  // 被上游限流时的熔断持续时间（秒）
+  };
+}
+
+// 配置校验结果
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// 单个配置项的变化
+export interface ConfigChange {
+  path: string;       // 如 channels.minmail.enabled
+  before: unknown;
+  after: unknown;
+}
+
+// 重新加载配置的结果，changes 为生效的变化（校验失败时为空）
+export interface ConfigReloadResult extends ConfigValidationResult {
+  changes: ConfigChange[];
+}
+
 // API 响应基础类型
+// 失败时 error 为错误信息，code / retryable / retryAfter 用于生成返回给客户端的错误结构（见 ApiErrorBody）
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  retryable?: boolean;
+  retryAfter?: number;   // 建议等待的秒数
+  details?: ErrorDetail[];
   timestamp: string;
   provider?: string;
 }
 
+// 错误码，与 HTTP 状态码的对应关系见 utils/errors.ts
+export type ErrorCode =
+  | 'invalid_request'       // 400 请求参数错误
+  | 'unauthorized'          // 401 缺少或无效的 API Key
+  | 'mailbox_unauthorized'  // 401 邮箱凭据（accessToken、句柄）缺失、无效或被提供者拒绝
+  | 'forbidden'             // 403 没有权限
+  | 'not_found'             // 404 资源不存在
+  | 'wait_timeout'          // 408 等待邮件超时
+  | 'rate_limited'          // 429 被限流（本服务或提供者）
+  | 'quota_exceeded'        // 429 超出用量额度
+  | 'internal_error'        // 500 服务内部错误
+  | 'upstream_error'        // 502 提供者返回错误或无法识别的响应
+  | 'upstream_unavailable'  // 503 提供者无法连接或暂时不可用
+  | 'upstream_timeout';     // 504 提供者响应超时
+
+// 返回给客户端的错误结构
+export interface ApiErrorBody {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  provider?: string;
+  retryAfter?: number;
+  details?: ErrorDetail[];  // 请求参数校验失败时逐个字段的错误
+}
+
+// 单个字段的错误
+export interface ErrorDetail {
+  field?: string;   // 字段路径，如 filters.subject；涉及多个字段时为空
+  message: string;
+}
+
 // 分页类型
 export interface Pagination {
   page: number;
@@ -62,6 +207,7 @@ export interface RequestContext {
   requestId: string;
   userAgent?: string;
   ip?: string;
+  traceId?: string;   // 开启链路追踪时为当前 trace
   timestamp: Date;
 }
 
@@ -0,0 +1,16 @@
+/**
+ * 异步上下文存储
+ * 动态加载 async_hooks，避免 Workers 打包时解析 node 内置模块；运行时不支持时返回 undefined
+ */
+
+import type { AsyncLocalStorage } from 'node:async_hooks';
+
+export async function createAsyncStorage<T>(): Promise<AsyncLocalStorage<T> | undefined> {
+  try {
+    const specifier = 'node:async_hooks';
+    const { AsyncLocalStorage } = await import(/* @vite-ignore */ specifier) as typeof import('node:async_hooks');
+    return new AsyncLocalStorage<T>();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import type { EmailMessage } from '../types/email.js';
+import { extractCodes, extractFromEmail, extractLinks, pickVerificationLink } from './email-extractor.js';
+
+type Fixture = Pick<EmailMessage, 'subject' | 'textContent' | 'htmlContent'>;
+
+// 常见发件方的邮件模板（内容按真实邮件精简）
+const fixtures = {
+  githubDevice: {
+    subject: '[GitHub] Please verify your device',
+    textContent: [
+      'Hey octocat!',
+      '',
+      'A sign in attempt requires further verification because we did not recognize your device.',
+      'To complete the sign in, enter the verification code on the unrecognized device.',
+      '',
+      'Device: Chrome on macOS',
+      'Verification code: 482913',
+      '',
+      'If you did not attempt to sign in to your account, your password may be compromised.',
+      'Visit https://github.com/settings/security to create a new, strong password for your GitHub account.',
+      '',
+      'Thanks,',
+      'The GitHub Team'
+    ].join('\n')
+  },
+  githubEmail: {
+    subject: '[GitHub] Please verify your email address.',
+    htmlContent: `
+      <html><head><style>.btn { color: #fff; }</style></head><body>
+        <p>Almost done, <strong>@octocat</strong>! To complete your GitHub sign up, we just need to verify your email address: octocat@example.com.</p>
+        <a class="btn" href="https://github.com/users/octocat/emails/81234567/confirm_verification/3f8a1b9c2d7e4f60a5b4c3d2e1f0a9b8?via_launch_code_email=true">Verify email address</a>
+        <p>Once verified, you can start using all of GitHub's features. You can change your <a href="https://github.com/settings/emails">email settings</a> at any time.</p>
+        <p><a href="https://docs.github.com/articles/verifying-your-email-address">GitHub Help</a> &middot;
+        <a href="https://support.github.com">Support</a></p>
+        <p>GitHub, Inc. &#x30FB; 88 Colin P Kelly Jr Street &#x30FB; San Francisco, CA 94107</p>
+      </body></html>`
+  },
+  google: {
+    subject: 'Google Account verification code',
+    htmlContent: `
+      <table><tr><td>
+        <div>Verify your email</div>
+        <div>Google received a request to use <a href="mailto:jane@example.com">jane@example.com</a> as a recovery email for Google Account j***@gmail.com.</div>
+        <div>Use this code to finish setting up this recovery email:</div>
+        <div style="font-size:36px;letter-spacing:3px">739201</div>
+        <div>This code will expire in 24 hours.</div>
+      </td></tr></table>
+      <div>You received this email to let you know about important changes to your Google Account and services.<br>
+      &copy; 2024 Google LLC, 1600 Amphitheatre Parkway, Mountain View, CA 94043, USA</div>`
+  },
+  slack: {
+    subject: 'Slack confirmation code: 384-712',
+    textContent: [
+      'Confirm your email address',
+      '',
+      'Your confirmation code is below — enter it in your open browser window and we\'ll help you get signed in.',
+      '',
+      '384-712',
+      '',
+      'If you didn\'t request this email, there\'s nothing to worry about — you can safely ignore it.',
+      '',
+      'Made by Slack Technologies, LLC · 500 Howard Street · San Francisco, CA 94105'
+    ].join('\n')
+  },
+  chinese: {
+    subject: '【阿里云】账号注册验证码',
+    textContent: '尊敬的用户：您好！您正在注册阿里云账号，验证码为：865392，该验证码 5 分钟内有效，请勿泄露于他人。如非本人操作，请忽略本邮件。'
+  },
+  grouped: {
+    subject: 'Your Acme login code',
+    textContent: 'Enter the following code to sign in:\n\n493 817\n\nThe code is valid for 10 minutes.'
+  },
+  receipt: {
+    subject: 'Your receipt from Acme Store',
+    textContent: [
+      'Thanks for your order!',
+      '',
+      'Order number: 58214730',
+      'Invoice #77310245',
+      'Total: $4999',
+      '',
+      '© 2024 Acme Inc. All rights reserved.'
+    ].join('\n')
+  },
+  codeWithFooter: {
+    subject: 'Verify your Acme account',
+    textContent: 'Your verification code is 401928.\n\nQuestions about order 66120045? Reply to this email.\n\n© 2024 Acme Inc.'
+  },
+  newsletter: {
+    subject: 'Welcome to Acme — please confirm your subscription',
+    htmlContent: `
+      <p><a href="https://u1234.ct.sendgrid.net/ls/click?upn=Zk3pV0sQeR7bHc2YwLq9xNfT4aJm8dUo">View in browser</a></p>
+      <p>Thanks for signing up! Click below to activate your account.</p>
+      <p><a href="https://acme.example.com/account/activate?token=c29tZS1vcGFxdWUtdG9rZW4">Activate account</a></p>
+      <p><a href="https://email.mg.acme.example.com/c/eJxVjk1uwzAIhU_jZWWc2E4WXrTqpVAOa">Read our blog</a></p>
+      <p><a href="https://acme.example.com/email/unsubscribe?token=dW5zdWJzY3JpYmUtdG9rZW4&amp;auth=1">Unsubscribe</a> |
+      <a href="https://acme.example.com/email/preferences?login=1">Manage email preferences</a></p>
+      <img src="https://track.acme.example.com/open/eJxVjk1uwzAIhU_jZWWc2E4WXrTqpVAOa" width="1" height="1">`
+  },
+  marketingOnly: {
+    subject: 'Our spring sale is here',
+    htmlContent: `
+      <p><a href="https://u1234.ct.sendgrid.net/ls/click?upn=Zk3pV0sQeR7bHc2YwLq9xNfT4aJm8dUo">Shop now</a></p>
+      <p><a href="https://acme.example.com/unsubscribe?token=dW5zdWJzY3JpYmUtdG9rZW4">Unsubscribe from all emails</a></p>
+      <p><a href="https://twitter.com/acme">Follow us</a></p>`
+  },
+  plainTextMagicLink: {
+    subject: 'Sign in to Acme',
+    textContent: [
+      'Click the link below to sign in to your Acme account:',
+      '',
+      'https://acme.example.com/auth/magic-link?token=Zx81KqLm20PaQ7sVbN4c.',
+      '',
+      'This link expires in 15 minutes. If you did not request it, you can ignore this email.',
+      'Manage notifications: https://acme.example.com/settings/notifications'
+    ].join('\n')
+  }
+} satisfies Record<string, Fixture>;
+
+function topCode(fixture: Fixture): string | undefined {
+  return extractFromEmail(fixture).codes[0]?.code;
+}
+
+function allCodes(fixture: Fixture): string[] {
+  return extractFromEmail(fixture).codes.map(code => code.code);
+}
+
+describe('extractFromEmail 验证码', () => {
+  it.each([
+    ['GitHub 设备验证', fixtures.githubDevice, '482913'],
+    ['Google 验证码（只有 HTML）', fixtures.google, '739201'],
+    ['Slack 分组验证码 384-712', fixtures.slack, '384712'],
+    ['中文验证码邮件', fixtures.chinese, '865392'],
+    ['空格分组验证码 493 817', fixtures.grouped, '493817'],
+    ['正文中带订单号和年份', fixtures.codeWithFooter, '401928']
+  ])('%s', (_name, fixture, expected) => {
+    const [first] = extractFromEmail(fixture).codes;
+    expect(first).toMatchObject({ code: expected, type: 'numeric' });
+    expect(first.confidence).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('不把年份识别为验证码', () => {
+    expect(allCodes(fixtures.google)).not.toContain('2024');
+    expect(allCodes(fixtures.codeWithFooter)).not.toContain('2024');
+  });
+
+  it('不把订单号、发票号和金额识别为验证码', () => {
+    expect(allCodes(fixtures.receipt)).toEqual([]);
+    expect(allCodes(fixtures.codeWithFooter)).not.toContain('66120045');
+  });
+
+  it('不把链接中的参数和地址中的邮编识别为验证码', () => {
+    expect(allCodes(fixtures.githubEmail)).toEqual([]);
+    expect(allCodes(fixtures.plainTextMagicLink)).toEqual([]);
+  });
+
+  it('识别包含字母和数字的验证码', () => {
+    const codes = extractCodes('Your Acme code', 'Your one-time passcode is X7K9QD. It expires in 10 minutes.');
+    expect(codes[0]).toMatchObject({ code: 'X7K9QD', type: 'alphanumeric' });
+  });
+
+  it('同一验证码在主题和正文中重复出现时只返回一次', () => {
+    expect(allCodes(fixtures.slack).filter(code => code === '384712')).toHaveLength(1);
+  });
+});
+
+describe('extractFromEmail 链接', () => {
+  it('提取 HTML 中的 href 及锚文本，跳过 mailto 链接', () => {
+    const { links } = extractFromEmail(fixtures.githubEmail);
+    expect(links).toEqual([
+      {
+        url: 'https://github.com/users/octocat/emails/81234567/confirm_verification/3f8a1b9c2d7e4f60a5b4c3d2e1f0a9b8?via_launch_code_email=true',
+        text: 'Verify email address'
+      },
+      { url: 'https://github.com/settings/emails', text: 'email settings' },
+      { url: 'https://docs.github.com/articles/verifying-your-email-address', text: 'GitHub Help' },
+      { url: 'https://support.github.com', text: 'Support' }
+    ]);
+    expect(extractFromEmail(fixtures.google).links).toEqual([]);
+  });
+
+  it('选出 GitHub 的邮箱验证链接', () => {
+    expect(extractFromEmail(fixtures.githubEmail).verificationLink?.text).toBe('Verify email address');
+  });
+
+  it('不选择退订、偏好设置和点击追踪链接', () => {
+    const { links, verificationLink } = extractFromEmail(fixtures.newsletter);
+    expect(links).toHaveLength(5);
+    expect(links[3].url).toBe('https://acme.example.com/email/unsubscribe?token=dW5zdWJzY3JpYmUtdG9rZW4&auth=1');
+    expect(verificationLink?.url).toBe('https://acme.example.com/account/activate?token=c29tZS1vcGFxdWUtdG9rZW4');
+  });
+
+  it('只有营销链接时没有验证链接', () => {
+    expect(extractFromEmail(fixtures.marketingOnly).verificationLink).toBeUndefined();
+  });
+
+  it('没有 htmlContent 时从纯文本中提取链接', () => {
+    const { links, verificationLink } = extractFromEmail(fixtures.plainTextMagicLink);
+    expect(links).toEqual([
+      { url: 'https://acme.example.com/auth/magic-link?token=Zx81KqLm20PaQ7sVbN4c', text: '' },
+      { url: 'https://acme.example.com/settings/notifications', text: '' }
+    ]);
+    expect(verificationLink?.url).toBe('https://acme.example.com/auth/magic-link?token=Zx81KqLm20PaQ7sVbN4c');
+  });
+
+  it('HTML 与纯文本中的同一链接只返回一次，保留锚文本', () => {
+    const url = 'https://acme.example.com/verify?code=abc';
+    expect(extractLinks(`<a href="${url}">Verify</a>`, `Verify: ${url}`)).toEqual([{ url, text: 'Verify' }]);
+  });
+
+  it('链接没有验证相关的关键词时不返回', () => {
+    expect(pickVerificationLink([{ url: 'https://acme.example.com/pricing', text: 'See pricing' }])).toBeUndefined();
+  });
+});
+
+describe('extractFromEmail 纯文本邮件', () => {
+  it('没有 htmlContent 时从 textContent 提取验证码', () => {
+    expect(topCode(fixtures.githubDevice)).toBe('482913');
+    expect(extractFromEmail(fixtures.githubDevice).links.map(link => link.url)).toEqual(['https://github.com/settings/security']);
+  });
+
+  it('邮件为空时返回空结果', () => {
+    expect(extractFromEmail({ subject: '' })).toEqual({ codes: [], links: [], verificationLink: undefined });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * 验证码与链接提取
+ * 从邮件主题和正文中识别候选验证码（OTP）、所有链接以及最可能的验证/登录链接
+ */
+
+import type { EmailExtraction, EmailMessage, ExtractedCode, ExtractedLink } from '../types/email.js';
+
+// 验证码附近常见的关键词
+const CODE_KEYWORDS = /(code|otp|passcode|pin\b|verification|verify|one[- ]time|security|confirm|验证码|校验码|动态码|确认码|安全码|認証|コード|인증)/i;
+// 验证链接的锚文本或路径关键词
+const LINK_KEYWORDS = /(verif|confirm|activat|validat|magic|sign[-_ ]?in|log[-_ ]?in|auth|reset|invite|register|sign[-_ ]?up|验证|确认|激活|登录|注册)/i;
+// 明显不是验证链接的地址
+const LINK_EXCLUDE = /(unsubscribe|privacy|terms|policy|preferences|help|support|facebook\.com|twitter\.com|x\.com|linkedin\.com|instagram\.com|退订|隐私)/i;
+// 数字验证码（允许 123-456 / 123 456 分组写法）或包含字母和数字的大写验证码
+const CODE_PATTERN = /(?<![\w.,-])(\d{3}[- ]\d{3}|\d{4,8}|(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{4,10})(?![\w-]|[.,]\d)/g;
+const URL_PATTERN = /https?:\/\/[^\s<>"'）)\]]+/gi;
+
+// 关键词与验证码之间的最大距离（字符）
+const CONTEXT_LENGTH = 60;
+const NEAR_CONTEXT_LENGTH = 25;
+// 低于此分数的候选不返回
+const MIN_CONFIDENCE = 0.3;
+const MAX_CODES = 10;
+
+/**
+ * 提取邮件中的验证码和链接
+ */
+export function extractFromEmail(message: Pick<EmailMessage, 'subject' | 'textContent' | 'htmlContent'>): EmailExtraction {
+  const text = message.textContent || (message.htmlContent ? htmlToText(message.htmlContent) : '');
+  const links = extractLinks(message.htmlContent, message.textContent);
+
+  return {
+    codes: extractCodes(message.subject || '', text),
+    links,
+    verificationLink: pickVerificationLink(links)
+  };
+}
+
+/**
+ * 提取候选验证码，按置信度从高到低排序
+ */
+export function extractCodes(subject: string, text: string): ExtractedCode[] {
+  const candidates = new Map<string, ExtractedCode>();
+  const subjectHasKeyword = CODE_KEYWORDS.test(subject);
+
+  const sources = [
+    { content: subject, inSubject: true },
+    // 去掉链接，避免把 URL 中的参数识别为验证码
+    { content: text.replace(URL_PATTERN, ' '), inSubject: false }
+  ];
+
+  for (const { content, inSubject } of sources) {
+    for (const match of content.matchAll(CODE_PATTERN)) {
+      const raw = match[1];
+      const index = match.index ?? 0;
+      const code = /^\d{3}[- ]\d{3}$/.test(raw) ? raw.replace(/[- ]/, '') : raw;
+      const type = /^\d+$/.test(code) ? 'numeric' : 'alphanumeric';
+
+      const before = content.slice(Math.max(0, index - CONTEXT_LENGTH), index);
+      const after = content.slice(index + raw.length, index + raw.length + CONTEXT_LENGTH);
+      const confidence = scoreCode(code, type, before, after, inSubject || subjectHasKeyword);
+
+      const existing = candidates.get(code);
+      if (confidence >= MIN_CONFIDENCE && (!existing || existing.confidence < confidence)) {
+        candidates.set(code, { code, type, confidence });
+      }
+    }
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CODES);
+}
+
+/**
+ * 提取 HTML 中的所有 href 及锚文本，以及纯文本中的链接
+ */
+export function extractLinks(html?: string, text?: string): ExtractedLink[] {
+  const links = new Map<string, ExtractedLink>();
+
+  if (html) {
+    const anchorPattern = /<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+    for (const match of html.matchAll(anchorPattern)) {
+      const url = decodeEntities(match[2]).trim();
+      if (!/^https?:\/\//i.test(url)) {
+        continue;
+      }
+
+      const anchorText = htmlToText(match[3]).replace(/\s+/g, ' ').trim();
+      const existing = links.get(url);
+      if (!existing || (!existing.text && anchorText)) {
+        links.set(url, { url, text: anchorText });
+      }
+    }
+  }
+
+  // 纯文本邮件中的链接没有锚文本
+  for (const match of (text || '').matchAll(URL_PATTERN)) {
+    const url = match[0].replace(/[.,;:!?]+$/, '');
+    if (!links.has(url)) {
+      links.set(url, { url, text: '' });
+    }
+  }
+
+  return Array.from(links.values());
+}
+
+/**
+ * 选出最可能的验证/登录链接
+ */
+export function pickVerificationLink(links: ExtractedLink[]): ExtractedLink | undefined {
+  let best: ExtractedLink | undefined;
+  let bestScore = 0;
+
+  for (const link of links) {
+    if (LINK_EXCLUDE.test(link.url) || LINK_EXCLUDE.test(link.text)) {
+      continue;
+    }
+
+    let score = 0;
+    if (LINK_KEYWORDS.test(link.text)) {
+      score += 2;
+    }
+    if (LINK_KEYWORDS.test(link.url.replace(/^https?:\/\/[^/]+/i, ''))) {
+      score += 2;
+    }
+    // 带一次性令牌的链接
+    if (/[?&](token|code|key|t)=|\/[A-Za-z0-9_-]{20,}/.test(link.url)) {
+      score += 1;
+    }
+
+    if (score >= 2 && score > bestScore) {
+      best = link;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function scoreCode(code: string, type: ExtractedCode['type'], before: string, after: string, subjectHint: boolean): number {
+  let score = type === 'numeric' ? 0.4 : 0.25;
+
+  // 关键词紧挨在验证码之前时加分最多
+  if (CODE_KEYWORDS.test(before.slice(-NEAR_CONTEXT_LENGTH))) {
+    score += 0.35;
+  } else if (CODE_KEYWORDS.test(before) || CODE_KEYWORDS.test(after)) {
+    score += 0.15;
+  }
+  if (subjectHint) {
+    score += 0.1;
+  }
+  if (type === 'numeric' && code.length === 6) {
+    score += 0.1;
+  }
+
+  // 年份、金额、订单号、电话、地址中的邮编等
+  if (/^(19|20)\d{2}$/.test(code)) {
+    score -= 0.3;
+  }
+  if (/[$€£¥#©]\s*$/.test(before) || /^\s*(%|px|em|元|年|月|日)/.test(after)) {
+    score -= 0.3;
+  }
+  if (/(order|invoice|订单|phone|tel|电话)\D{0,20}$/i.test(before)) {
+    score -= 0.4;
+  }
+  if (/,\s*[A-Z]{2}\s*$/.test(before)) {
+    score -= 0.3;
+  }
+
+  return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+}
+
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(style|script|head)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  return decodeEntities(text).replace(/[ \t\u00a0]+/g, ' ');
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return isNaN(codePoint) || codePoint > 0x10ffff ? entity : String.fromCodePoint(codePoint);
+    }
+    return named[name.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * 跨运行时环境变量读取
+ * Cloudflare Workers 通过 c.env 绑定，其他运行时使用 Hono 的 env() 适配
+ */
+
+import { env } from 'hono/adapter';
+import type { Context } from 'hono';
+
+/**
+ * 环境来源：请求上下文，或定时任务等没有请求时传入的 { env }
+ */
+export type EnvSource = Pick<Context, 'env'>;
+
+/**
+ * 读取单个环境变量
+ */
+export function getEnv(c: EnvSource, name: string): string | undefined {
+  if (c.env && typeof c.env === 'object' && typeof (c.env as any)[name] === 'string') {
+    return (c.env as any)[name];
+  }
+
+  try {
+    return env<Record<string, string | undefined>>(c as Context)[name];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 读取 Workers 绑定对象（如 KV Namespace），非 Workers 环境返回 undefined
+ */
+export function getBinding<T = unknown>(c: EnvSource, name: string): T | undefined {
+  if (c.env && typeof c.env === 'object' && (c.env as any)[name] && typeof (c.env as any)[name] === 'object') {
+    return (c.env as any)[name] as T;
+  }
+  return undefined;
+}
@@ -0,0 +1,175 @@
+/**
+ * 错误码与 HTTP 状态码
+ * 服务层在失败响应中给出 code，路由通过 sendResult / sendError 统一输出：
+ * { success: false, error: { code, message, retryable, provider?, retryAfter?, details? }, timestamp }
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { ApiErrorBody, ApiResponse, ErrorCode, ErrorDetail } from '../types/index.js';
+import type { ChannelError } from '../types/channel.js';
+import { ChannelErrorType } from '../types/channel.js';
+import type { ProviderOperation } from '../services/metrics-service.js';
+
+/**
+ * 错误码对应的 HTTP 状态码
+ */
+export const ERROR_STATUS: Record<ErrorCode, ContentfulStatusCode> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  mailbox_unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  wait_timeout: 408,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+  upstream_error: 502,
+  upstream_unavailable: 503,
+  upstream_timeout: 504
+};
+
+// 原样重试（或等待 retryAfter 后重试）可能成功的错误
+const RETRYABLE_CODES = new Set<ErrorCode>([
+  'wait_timeout',
+  'rate_limited',
+  'quota_exceeded',
+  'upstream_error',
+  'upstream_unavailable',
+  'upstream_timeout'
+]);
+
+/**
+ * 带错误码的异常，服务层抛出后由 toFailure 转换为失败响应
+ */
+export class ApiError extends Error {
+  readonly retryAfter?: number;
+  readonly details?: ErrorDetail[];
+
+  constructor(readonly code: ErrorCode, message: string, options: { retryAfter?: number; details?: ErrorDetail[] } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.retryAfter = options.retryAfter;
+    this.details = options.details;
+  }
+}
+
+/**
+ * 失败响应的附加信息
+ */
+export interface FailureOptions {
+  provider?: string;
+  retryAfter?: number;
+  details?: ErrorDetail[];
+}
+
+/**
+ * 创建失败响应
+ */
+export function failure(code: ErrorCode, message: string, options: FailureOptions = {}): ApiResponse<never> {
+  return {
+    success: false,
+    error: message,
+    code,
+    retryable: RETRYABLE_CODES.has(code),
+    retryAfter: options.retryAfter,
+    details: options.details,
+    timestamp: new Date().toISOString(),
+    provider: options.provider
+  };
+}
+
+/**
+ * 渠道错误对应的错误码
+ * 创建邮箱时提供者认证失败是服务端的渠道配置问题（502），读取邮箱时则是邮箱凭据被拒绝（401）
+ */
+export function channelErrorCode(error: ChannelError, operation: ProviderOperation): ErrorCode {
+  switch (error.type) {
+    case ChannelErrorType.RATE_LIMIT_ERROR:
+      return 'rate_limited';
+    case ChannelErrorType.TIMEOUT_ERROR:
+      return 'upstream_timeout';
+    case ChannelErrorType.NETWORK_ERROR:
+      return 'upstream_unavailable';
+    case ChannelErrorType.AUTHENTICATION_ERROR:
+      return operation === 'create' ? 'upstream_error' : 'mailbox_unauthorized';
+    case ChannelErrorType.CONFIGURATION_ERROR:
+      return 'invalid_request';
+    default:
+      if (error.statusCode === 404) {
+        return 'not_found';
+      }
+      return error.statusCode === 503 ? 'upstream_unavailable' : 'upstream_error';
+  }
+}
+
+/**
+ * 渠道调用失败时的响应
+ */
+export function fromChannelError(
+  error: ChannelError | undefined,
+  provider: string,
+  operation: ProviderOperation,
+  fallbackMessage: string
+): ApiResponse<never> {
+  if (!error) {
+    return failure('upstream_error', fallbackMessage, { provider });
+  }
+  return failure(channelErrorCode(error, operation), error.message || fallbackMessage, {
+    provider,
+    retryAfter: error.retryAfter
+  });
+}
+
+/**
+ * 将异常转换为失败响应，未知异常视为内部错误
+ */
+export function toFailure(error: unknown, provider?: string): ApiResponse<never> {
+  if (error instanceof ApiError) {
+    return failure(error.code, error.message, { provider, retryAfter: error.retryAfter, details: error.details });
+  }
+  if (error instanceof SyntaxError) {
+    // c.req.json() 解析请求体失败
+    return failure('invalid_request', `Invalid JSON body: ${error.message}`, { provider });
+  }
+  return failure('internal_error', error instanceof Error ? error.message : String(error), { provider });
+}
+
+/**
+ * 失败响应中返回给客户端的错误结构
+ */
+export function toErrorBody(result: ApiResponse): ApiErrorBody {
+  const code = result.code || 'internal_error';
+  return {
+    code,
+    message: result.error || 'Unknown error',
+    retryable: result.retryable ?? RETRYABLE_CODES.has(code),
+    provider: result.provider,
+    retryAfter: result.retryAfter,
+    details: result.details
+  };
+}
+
+/**
+ * 输出服务层结果：成功时原样返回 200，失败时按错误码设置状态码和 Retry-After 头
+ * 失败响应中的附加字段（如 attempts、errors）保留
+ */
+export function sendResult(c: Context, result: ApiResponse) {
+  if (result.success) {
+    return c.json(result, 200);
+  }
+
+  const { error: _message, code: _code, retryable: _retryable, retryAfter: _retryAfter, details: _details, ...rest } = result;
+  const error = toErrorBody(result);
+  if (error.retryAfter !== undefined) {
+    c.header('Retry-After', String(error.retryAfter));
+  }
+  return c.json({ ...rest, error }, ERROR_STATUS[error.code]);
+}
+
+/**
+ * 直接输出错误
+ */
+export function sendError(c: Context, code: ErrorCode, message: string, options?: FailureOptions) {
+  return sendResult(c, failure(code, message, options));
+}
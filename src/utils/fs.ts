@@ -0,0 +1,11 @@
+/**
+ * 文件系统访问（Node.js / Docker / Deno / Bun）
+ */
+
+/**
+ * 动态加载 fs 模块，避免 Workers 打包时解析 node 内置模块
+ */
+export function importFs(): Promise<typeof import('node:fs/promises')> {
+  const specifier = 'node:fs/promises';
+  return import(/* @vite-ignore */ specifier);
+}
@@ -3,6 +3,8 @@
  * 提供统一的 HTTP 请求功能，支持超时、重试、错误处理等
  */
 
+import { tracer, SpanKind, SpanStatusCode } from './tracing.js';
+
 export interface HttpRequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   headers?: Record<string, string>;
@@ -42,6 +44,18 @@ export class HttpClient {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      // 每次尝试一个 span，只记录地址和路径，查询参数中可能包含邮箱地址
+      const target = URL.canParse(url) ? new URL(url) : undefined;
+      const span = tracer.startSpan(`HTTP ${method}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': method,
+          'server.address': target?.hostname,
+          'url.path': target?.pathname,
+          'http.request.resend_count': attempt > 0 ? attempt : undefined
+        }
+      });
+
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -70,6 +84,11 @@ export class HttpClient {
           data = await response.arrayBuffer() as T;
         }
 
+        span.setAttribute('http.response.status_code', response.status);
+        if (response.status >= 400) {
+          span.setStatus(SpanStatusCode.ERROR, `${response.status} ${response.statusText}`);
+        }
+
         return {
           ok: response.ok,
           status: response.status,
@@ -81,6 +100,8 @@ export class HttpClient {
 
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        // 重试等待不计入本次尝试
+        span.recordException(lastError).end();
         
         // 如果是最后一次尝试，抛出错误
         if (attempt === retries) {
@@ -91,6 +112,8 @@ export class HttpClient {
         if (attempt < retries) {
           await this.sleep(retryDelay * (attempt + 1));
         }
+      } finally {
+        span.end();
       }
     }
 
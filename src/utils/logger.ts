@@ -0,0 +1,239 @@
+/**
+ * 结构化日志
+ * 每条日志输出一行 JSON：{ time, level, module, msg, requestId?, traceId?, ...fields }
+ *
+ * 环境变量：
+ * - LOG_LEVEL：默认级别，可附加按模块的级别，如 "info,providers=debug,auth=warn"
+ *   （模块按前缀匹配：providers 同时作用于 providers.minmail 等子模块，最长匹配优先）
+ * - LOG_FORMAT：json（默认）或 pretty（单行文本，适合本地开发）
+ *
+ * API Key、令牌等敏感字段替换为 [REDACTED]，邮箱地址只保留首字母和域名。
+ * requestId 通过 AsyncLocalStorage 传递；运行时不支持时（如未开启 nodejs_compat 的 Workers）
+ * 只有请求中间件输出的访问日志带 requestId
+ */
+
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import type { RequestContext } from '../types/index.js';
+import { getEnv } from './env.js';
+import type { EnvSource } from './env.js';
+import { createAsyncStorage } from './async-context.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50
+};
+
+// 字段名匹配时整体替换字符串值
+const SENSITIVE_KEY = /api[-_]?key|token|secret|password|authorization|cookie/i;
+const EMAIL = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)/g;
+const CREDENTIAL = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const CREDENTIAL_PARAM = /([?&](?:api[-_]?key|token|access_token)=)[^&\s]+/gi;
+const MAX_DEPTH = 5;
+
+// 日志条目自带的字段，不会被 fields 覆盖
+const RESERVED_FIELDS = new Set(['time', 'level', 'module', 'msg', 'requestId', 'traceId']);
+
+export class Logger {
+  constructor(readonly module: string, private readonly manager: LogManager) {}
+
+  debug(msg: string, fields?: LogFields): void {
+    this.manager.write('debug', this.module, msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.manager.write('info', this.module, msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.manager.write('warn', this.module, msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.manager.write('error', this.module, msg, fields);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return this.manager.isEnabled(level, this.module);
+  }
+
+  /**
+   * 子模块日志，如 providers 的子模块 providers.minmail
+   */
+  child(name: string): Logger {
+    return this.manager.getLogger(`${this.module}.${name}`);
+  }
+}
+
+export class LogManager {
+  private defaultLevel: LogLevel | 'silent' = 'info';
+  private moduleLevels: [string, LogLevel | 'silent'][] = [];
+  private format: 'json' | 'pretty' = 'json';
+  private configuredWith: string | null = null;
+  private readonly loggers = new Map<string, Logger>();
+
+  constructor(private readonly storage?: AsyncLocalStorage<RequestContext>) {}
+
+  /**
+   * 按环境变量设置级别和格式，配置不变时直接返回
+   * @param c 请求上下文；不传时读取 process.env
+   */
+  configure(c: EnvSource = { env: (globalThis as any).process?.env }): void {
+    const level = getEnv(c, 'LOG_LEVEL') || 'info';
+    const format = getEnv(c, 'LOG_FORMAT') || 'json';
+    const key = `${level}|${format}`;
+    if (key === this.configuredWith) {
+      return;
+    }
+    this.configuredWith = key;
+
+    const invalid: string[] = [];
+    this.defaultLevel = 'info';
+    this.moduleLevels = [];
+    for (const entry of level.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [module, value] = entry.includes('=') ? entry.split('=', 2).map(item => item.trim()) : ['', entry];
+      const parsed = value.toLowerCase();
+      if (!(parsed in LEVELS)) {
+        invalid.push(entry);
+      } else if (module) {
+        this.moduleLevels.push([module, parsed as LogLevel | 'silent']);
+      } else {
+        this.defaultLevel = parsed as LogLevel | 'silent';
+      }
+    }
+    this.moduleLevels.sort((a, b) => b[0].length - a[0].length);
+    this.format = format.toLowerCase() === 'pretty' ? 'pretty' : 'json';
+
+    if (invalid.length > 0) {
+      this.write('warn', 'logger', 'Ignoring invalid LOG_LEVEL entries', { entries: invalid, levels: Object.keys(LEVELS) });
+    }
+  }
+
+  getLogger(module: string): Logger {
+    let logger = this.loggers.get(module);
+    if (!logger) {
+      logger = new Logger(module, this);
+      this.loggers.set(module, logger);
+    }
+    return logger;
+  }
+
+  /**
+   * 在请求上下文中执行，期间输出的日志带 requestId
+   */
+  runWithContext<T>(context: RequestContext, fn: () => T): T {
+    return this.storage ? this.storage.run(context, fn) : fn();
+  }
+
+  /**
+   * 当前请求上下文
+   */
+  getContext(): RequestContext | undefined {
+    return this.storage?.getStore();
+  }
+
+  isEnabled(level: LogLevel, module: string): boolean {
+    const rule = this.moduleLevels.find(([prefix]) => module === prefix || module.startsWith(`${prefix}.`));
+    return LEVELS[level] >= LEVELS[rule ? rule[1] : this.defaultLevel];
+  }
+
+  write(level: LogLevel, module: string, msg: string, fields?: LogFields, context: RequestContext | undefined = this.getContext()): void {
+    if (!this.isEnabled(level, module)) {
+      return;
+    }
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      module,
+      msg: redactString(msg)
+    };
+    if (context) {
+      entry.requestId = context.requestId;
+      if (context.traceId) {
+        entry.traceId = context.traceId;
+      }
+    }
+    for (const [key, value] of Object.entries(fields || {})) {
+      if (!RESERVED_FIELDS.has(key) && value !== undefined) {
+        entry[key] = sanitize(key, value, 0);
+      }
+    }
+
+    const line = this.format === 'pretty' ? formatPretty(entry) : safeStringify(entry);
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * 遮盖字符串中的邮箱地址和凭据
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(CREDENTIAL, '$1 [REDACTED]')
+    .replace(CREDENTIAL_PARAM, '$1[REDACTED]')
+    .replace(EMAIL, '$1***@$2');
+}
+
+function sanitize(key: string, value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return SENSITIVE_KEY.test(key) && value ? '[REDACTED]' : redactString(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize('', item, depth + 1));
+  }
+  const result: LogFields = {};
+  for (const [childKey, child] of Object.entries(value)) {
+    result[childKey] = sanitize(childKey, child, depth + 1);
+  }
+  return result;
+}
+
+function safeStringify(entry: LogFields): string {
+  try {
+    return JSON.stringify(entry, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+  } catch {
+    return JSON.stringify({ time: entry.time, level: entry.level, module: entry.module, msg: entry.msg });
+  }
+}
+
+function formatPretty(entry: LogFields): string {
+  const { time, level, module, msg, ...rest } = entry;
+  const extra = Object.keys(rest).length > 0 ? ` ${safeStringify(rest)}` : '';
+  return `${time} ${String(level).toUpperCase().padEnd(5)} [${module}] ${msg}${extra}`;
+}
+
+// 导出单例实例
+export const logManager = new LogManager(await createAsyncStorage<RequestContext>());
+logManager.configure();
+
+/**
+ * 获取模块日志
+ */
+export function createLogger(module: string): Logger {
+  return logManager.getLogger(module);
+}
@@ -0,0 +1,133 @@
+/**
+ * 邮箱句柄（Mailbox Handle）工具
+ * 将 provider、邮箱地址以及 provider 私有的会话凭据加密并签名为不透明字符串，
+ * 使 /api/mail/list 与 /api/mail/content 无需服务端状态即可重建会话
+ */
+
+import type { MailboxSession } from '../types/email.js';
+import { getEnv } from './env.js';
+import type { EnvSource } from './env.js';
+import { ApiError } from './errors.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('mailbox-handle');
+
+const HANDLE_VERSION = 'v1';
+
+/**
+ * 句柄中携带的会话信息
+ */
+export interface MailboxHandlePayload extends MailboxSession {
+  issuedAt: string;
+  owner?: string;  // 创建邮箱的调用方（启用 API Key 认证时）
+}
+
+/**
+ * 句柄解析失败（格式错误、签名不匹配或已过期）
+ */
+export class MailboxHandleError extends ApiError {
+  constructor(message: string) {
+    super('mailbox_unauthorized', message);
+    this.name = 'MailboxHandleError';
+  }
+}
+
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+// HKDF 的用途标签，使句柄密钥与同一密钥的其他用途（如 API Key 认证）相互独立
+const HANDLE_KEY_INFO = new TextEncoder().encode('tempmailhub:mailbox-handle:v1');
+
+/**
+ * 由服务端密钥经 HKDF-SHA256 派生 AES-GCM 密钥（GCM 同时提供加密与完整性校验）
+ */
+function deriveKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = crypto.subtle
+      .importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+      .then(material => crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: HANDLE_KEY_INFO },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      ));
+    keyCache.set(secret, key);
+  }
+  return key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 生成邮箱句柄
+ */
+export async function sealMailboxHandle(payload: MailboxHandlePayload, secret: string): Promise<string> {
+  const key = await deriveKey(secret);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return `${HANDLE_VERSION}.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * 解析并校验邮箱句柄
+ */
+export async function openMailboxHandle(handle: string, secret: string): Promise<MailboxHandlePayload> {
+  const parts = typeof handle === 'string' ? handle.split('.') : [];
+  if (parts.length !== 3 || parts[0] !== HANDLE_VERSION) {
+    throw new MailboxHandleError('Malformed mailbox handle');
+  }
+
+  let payload: MailboxHandlePayload;
+  try {
+    const key = await deriveKey(secret);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(parts[1]) },
+      key,
+      fromBase64Url(parts[2])
+    );
+    payload = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new MailboxHandleError('Invalid mailbox handle');
+  }
+
+  if (payload.expiresAt && new Date(payload.expiresAt).getTime() < Date.now()) {
+    throw new MailboxHandleError('Mailbox handle has expired');
+  }
+
+  return payload;
+}
+
+let missingSecretLogged = false;
+
+/**
+ * 获取句柄签名密钥
+ * 优先使用 TEMPMAILHUB_HANDLE_SECRET，其次复用 TEMPMAILHUB_API_KEY（经 HKDF 按用途派生，不直接用作加密密钥）；
+ * 都未设置时返回 undefined，不签发句柄（实例各自生成的临时密钥在其他实例上无法解开句柄）
+ */
+export function getHandleSecret(c: EnvSource): string | undefined {
+  const secret = getEnv(c, 'TEMPMAILHUB_HANDLE_SECRET') || getEnv(c, 'TEMPMAILHUB_API_KEY');
+  if (!secret && !missingSecretLogged) {
+    missingSecretLogged = true;
+    logger.warn('TEMPMAILHUB_HANDLE_SECRET is not set, mailbox handles are disabled');
+  }
+  return secret;
+}
@@ -0,0 +1,194 @@
+/**
+ * 指标注册表，输出 Prometheus 文本格式（text/plain; version=0.0.4）
+ */
+
+import { createLogger } from './logger.js';
+
+const logger = createLogger('metrics');
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+/**
+ * 按标签值分组保存数据
+ */
+abstract class LabeledMetric<T> implements Metric {
+  abstract readonly type: Metric['type'];
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, protected readonly labelNames: readonly string[]) {}
+
+  abstract render(): string[];
+
+  /**
+   * 清空所有数据（用于每次采集时重新填充的指标）
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      const normalized: Labels = {};
+      for (const name of this.labelNames) {
+        normalized[name] = labels[name] ?? '';
+      }
+      entry = { labels: normalized, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * 只增不减的计数器
+ */
+export class Counter extends LabeledMetric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /**
+   * 汇总标签匹配的所有序列
+   */
+  sum(filter: Labels = {}): number {
+    let total = 0;
+    for (const { labels, value } of this.series.values()) {
+      if (Object.entries(filter).every(([name, expected]) => labels[name] === expected)) {
+        total += value;
+      }
+    }
+    return total;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+/**
+ * 可任意设置的瞬时值
+ */
+export class Gauge extends LabeledMetric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+interface HistogramData {
+  buckets: number[];  // 每个上界各自的计数（输出时累加）
+  sum: number;
+  count: number;
+}
+
+/**
+ * 直方图，buckets 为升序的上界
+ */
+export class Histogram extends LabeledMetric<HistogramData> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly string[], private readonly bounds: readonly number[]) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const data = this.entry(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 })).value;
+    const index = this.bounds.findIndex(bound => value <= bound);
+    if (index >= 0) {
+      data.buckets[index]++;
+    }
+    data.sum += value;
+    data.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      this.bounds.forEach((bound, i) => {
+        cumulative += value.buckets[i];
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, cumulative));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count));
+      lines.push(sample(`${this.name}_sum`, labels, value.sum));
+      lines.push(sample(`${this.name}_count`, labels, value.count));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+  private readonly collectors: (() => void)[] = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[], buckets: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * 添加采集回调，每次输出前调用，用于填充瞬时状态类的指标
+   */
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch (error) {
+        logger.warn('Metrics collector failed', { error });
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels)
+    .map(([key, label]) => `${key}="${label.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,250 @@
+/**
+ * 类型化 schema
+ * 同一份定义既用于运行时校验（错误精确到字段路径，如 channels.minmail.rateLimit.window），
+ * 也用于生成 JSON Schema（OpenAPI 文档）
+ */
+
+/**
+ * 单条校验错误
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * 具名 schema 的 JSON Schema，生成时收集到 OpenAPI 的 components.schemas
+ */
+export type SchemaComponents = Record<string, JsonSchema>;
+
+/**
+ * 类型为 T 的值的校验器
+ */
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /**
+   * @param components 传入时具名 schema 输出为 $ref 并收集到其中，否则内联
+   */
+  toJSONSchema(components?: SchemaComponents): JsonSchema;
+  readonly type?: T;  // 仅用于类型推导
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * 文档说明，只影响生成的 JSON Schema
+ */
+export interface Annotations {
+  description?: string;
+  example?: unknown;
+}
+
+function schema<T>(check: Schema<T>['check'], toJSONSchema: Schema<T>['toJSONSchema']): Schema<T> {
+  return { check, toJSONSchema };
+}
+
+function annotate(json: JsonSchema, options: Annotations): JsonSchema {
+  if (options.description) {
+    json.description = options.description;
+  }
+  if (options.example !== undefined) {
+    json.examples = [options.example];
+  }
+  return json;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function join(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+export const s = {
+  boolean(options: Annotations = {}): Schema<boolean> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+      }
+    }, () => annotate({ type: 'boolean' }, options));
+  },
+
+  number(options: { min?: number; max?: number; integer?: boolean; positive?: boolean } & Annotations = {}): Schema<number> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `expected integer, got ${value}` });
+      } else if (options.positive && value <= 0) {
+        issues.push({ path, message: `must be > 0, got ${value}` });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be >= ${options.min}, got ${value}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `must be <= ${options.max}, got ${value}` });
+      }
+    }, () => annotate({
+      type: options.integer ? 'integer' : 'number',
+      minimum: options.min,
+      maximum: options.max,
+      exclusiveMinimum: options.positive ? 0 : undefined
+    }, options));
+  },
+
+  /**
+   * 字符串，format 为 date-time 时校验能否解析为时间，其他 format（如 uri）只用于文档
+   */
+  string(options: { format?: string; minLength?: number; maxLength?: number; pattern?: RegExp } & Annotations = {}): Schema<string> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+      } else if (options.minLength !== undefined && value.length < options.minLength) {
+        issues.push({ path, message: options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters` });
+      } else if (options.maxLength !== undefined && value.length > options.maxLength) {
+        issues.push({ path, message: `must be at most ${options.maxLength} characters` });
+      } else if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ path, message: `must match ${options.pattern.source}` });
+      } else if (options.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        issues.push({ path, message: `expected an ISO 8601 date-time, got ${JSON.stringify(value)}` });
+      }
+    }, () => annotate({
+      type: 'string',
+      format: options.format,
+      minLength: options.minLength,
+      maxLength: options.maxLength,
+      pattern: options.pattern?.source
+    }, options));
+  },
+
+  oneOf<T extends string>(values: readonly T[], options: Annotations = {}): Schema<T> {
+    return schema((value, path, issues) => {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+      }
+    }, () => annotate({ type: 'string', enum: [...values] }, options));
+  },
+
+  /**
+   * 任意值，不做校验（用于结构不固定的响应字段）
+   */
+  any<T = unknown>(options: Annotations = {}): Schema<T> {
+    return schema(() => {}, () => annotate({}, options));
+  },
+
+  array<T>(item: Schema<T>, options: Annotations = {}): Schema<T[]> {
+    return schema((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, join(path, index), issues));
+    }, components => annotate({ type: 'array', items: item.toJSONSchema(components) }, options));
+  },
+
+  /**
+   * 对象：字段均可省略，required 中的字段必须出现，requireAnyOf 中的字段至少出现一个；
+   * 默认不允许未知字段，passthrough 时忽略未知字段
+   */
+  object<T>(
+    shape: Shape<T>,
+    options: { required?: (keyof T)[]; requireAnyOf?: (keyof T)[]; passthrough?: boolean } & Annotations = {}
+  ): Schema<T> {
+    const fields = shape as Record<string, Schema<unknown>>;
+    return schema((value, path, issues) => {
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      for (const key of options.required || []) {
+        if (value[key as string] === undefined) {
+          issues.push({ path: join(path, key as string), message: 'is required' });
+        }
+      }
+      if (options.requireAnyOf && options.requireAnyOf.every(key => value[key as string] === undefined)) {
+        issues.push({ path, message: `one of ${options.requireAnyOf.join(', ')} is required` });
+      }
+      for (const [key, field] of Object.entries(value)) {
+        const fieldSchema = fields[key];
+        if (!fieldSchema) {
+          if (!options.passthrough) {
+            issues.push({ path: join(path, key), message: `unknown field, expected one of ${Object.keys(shape).join(', ')}` });
+          }
+        } else if (field !== undefined) {
+          fieldSchema.check(field, join(path, key), issues);
+        }
+      }
+    }, components => annotate({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.toJSONSchema(components)])),
+      required: options.required?.length ? options.required : undefined,
+      anyOf: options.requireAnyOf?.map(key => ({ required: [key] })),
+      additionalProperties: options.passthrough ? undefined : false
+    }, options));
+  },
+
+  /**
+   * 键值映射，keys 限定允许的键
+   */
+  record<T>(item: Schema<T>, options: { keys?: () => string[] } & Annotations = {}): Schema<Record<string, T>> {
+    return schema((value, path, issues) => {
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      const allowed = options.keys?.();
+      for (const [key, field] of Object.entries(value)) {
+        if (allowed && !allowed.includes(key)) {
+          issues.push({ path: join(path, key), message: `unknown key, expected one of ${allowed.join(', ')}` });
+        } else {
+          item.check(field, join(path, key), issues);
+        }
+      }
+    }, components => annotate({ type: 'object', additionalProperties: item.toJSONSchema(components) }, options));
+  },
+
+  /**
+   * 附加校验：基础校验通过后再执行，用于依赖运行时状态或跨字段的规则
+   */
+  refine<T>(target: Schema<T>, check: (value: T, path: string, issues: SchemaIssue[]) => void): Schema<T> {
+    return schema((value, path, issues) => {
+      const before = issues.length;
+      target.check(value, path, issues);
+      if (issues.length === before) {
+        check(value as T, path, issues);
+      }
+    }, target.toJSONSchema);
+  },
+
+  /**
+   * 具名 schema，在 OpenAPI 文档中作为可复用的组件
+   */
+  named<T>(name: string, target: Schema<T>): Schema<T> {
+    return schema(target.check, components => {
+      if (!components) {
+        return target.toJSONSchema();
+      }
+      if (!components[name]) {
+        components[name] = {};  // 先占位，避免递归引用时重复生成
+        components[name] = target.toJSONSchema(components);
+      }
+      return { $ref: `#/components/schemas/${name}` };
+    });
+  }
+};
+
+/**
+ * 按 schema 校验，返回全部错误
+ */
+export function validate<T>(target: Schema<T>, value: unknown): { value?: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  target.check(value, '', issues);
+  return issues.length > 0 ? { issues } : { value: value as T, issues };
+}
@@ -0,0 +1,57 @@
+/**
+ * 令牌桶限流器
+ * 桶容量为 capacity，每 window 秒匀速补满，每次调用消耗一个令牌
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private readonly refillPerMs: number;
+
+  constructor(private readonly capacity: number, window: number) {
+    this.tokens = capacity;
+    this.refillPerMs = capacity / (window * 1000);
+  }
+
+  /**
+   * 尝试消耗一个令牌
+   * @returns 成功返回 0，否则返回需要等待的毫秒数
+   */
+  take(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return this.waitTime();
+  }
+
+  /**
+   * 剩余令牌数
+   */
+  get remaining(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * 剩余令牌占容量的比例（0-1）
+   */
+  get budget(): number {
+    this.refill();
+    return this.capacity > 0 ? this.tokens / this.capacity : 0;
+  }
+
+  /**
+   * 距离下一个令牌可用的毫秒数
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
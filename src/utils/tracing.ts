@@ -0,0 +1,415 @@
+/**
+ * 链路追踪
+ * 轻量实现 W3C Trace Context（traceparent）传播和 OTLP/HTTP（JSON）导出，可在 Workers、Deno、Node.js 上运行。
+ * 通过标准的 OpenTelemetry 环境变量配置：
+ * - OTEL_TRACES_EXPORTER：otlp、console 或 none（默认，不记录）
+ * - OTEL_EXPORTER_OTLP_ENDPOINT：收集器地址，默认 http://localhost:4318（导出到 /v1/traces）
+ * - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT：完整的导出地址，优先于上一项
+ * - OTEL_EXPORTER_OTLP_HEADERS：导出请求头，如 authorization=Bearer xxx,x-tenant=a
+ * - OTEL_SERVICE_NAME：服务名，默认 tempmailhub
+ * 父子关系通过 AsyncLocalStorage 传递；运行时不支持时（如未开启 nodejs_compat 的 Workers）每个 span 独立成链
+ */
+
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import { getEnv } from './env.js';
+import type { EnvSource } from './env.js';
+import { createAsyncStorage } from './async-context.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('tracing');
+
+export type AttributeValue = string | number | boolean;
+
+export enum SpanKind {
+  INTERNAL = 1,
+  SERVER = 2,
+  CLIENT = 3
+}
+
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2
+}
+
+export interface SpanContext {
+  traceId: string;   // 32 位十六进制
+  spanId: string;    // 16 位十六进制
+  sampled: boolean;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Record<string, AttributeValue | undefined>;
+  parent?: SpanContext;  // 不指定时使用当前上下文中的 span
+}
+
+/**
+ * 已结束的 span
+ */
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId?: string;
+  startTime: number;  // 毫秒时间戳
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  status: { code: SpanStatusCode; message?: string };
+  events: { name: string; time: number; attributes: Record<string, AttributeValue> }[];
+}
+
+/**
+ * span 导出器
+ */
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+  flush(): Promise<void>;
+}
+
+export class Span {
+  readonly context: SpanContext;
+  private readonly startTime = Date.now();
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private readonly events: FinishedSpan['events'] = [];
+  private status: FinishedSpan['status'] = { code: SpanStatusCode.UNSET };
+  private ended = false;
+
+  constructor(
+    private name: string,
+    readonly kind: SpanKind,
+    private readonly parent: SpanContext | undefined,
+    private readonly onEnd: (span: FinishedSpan) => void
+  ) {
+    this.context = {
+      traceId: parent?.traceId || randomHex(16),
+      spanId: randomHex(8),
+      sampled: parent ? parent.sampled : true
+    };
+  }
+
+  updateName(name: string): this {
+    this.name = name;
+    return this;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * 记录异常并将状态设为 ERROR
+   */
+  recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.events.push({
+      name: 'exception',
+      time: Date.now(),
+      attributes: {
+        'exception.type': error instanceof Error ? error.name : typeof error,
+        'exception.message': message
+      }
+    });
+    return this.setStatus(SpanStatusCode.ERROR, message);
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      parentSpanId: this.parent?.spanId,
+      startTime: this.startTime,
+      endTime: Date.now(),
+      attributes: this.attributes,
+      status: this.status,
+      events: this.events
+    });
+  }
+}
+
+export class Tracer {
+  private exporter: SpanExporter | null = null;
+  private configuredWith: string | null = null;
+
+  constructor(private readonly storage?: AsyncLocalStorage<Span>) {}
+
+  /**
+   * 按环境变量选择导出器，配置不变时不重复创建
+   * @param c 请求上下文；不传时读取 process.env
+   */
+  configure(c: EnvSource = { env: (globalThis as any).process?.env }): void {
+    const settings = {
+      exporter: (getEnv(c, 'OTEL_TRACES_EXPORTER') || 'none').toLowerCase(),
+      endpoint: getEnv(c, 'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT') ||
+        `${(getEnv(c, 'OTEL_EXPORTER_OTLP_ENDPOINT') || 'http://localhost:4318').replace(/\/+$/, '')}/v1/traces`,
+      headers: getEnv(c, 'OTEL_EXPORTER_OTLP_HEADERS') || '',
+      serviceName: getEnv(c, 'OTEL_SERVICE_NAME') || 'tempmailhub'
+    };
+    const key = JSON.stringify(settings);
+    if (key === this.configuredWith) {
+      return;
+    }
+    this.configuredWith = key;
+
+    if (settings.exporter === 'otlp') {
+      this.exporter = new OtlpHttpExporter(settings.endpoint, parseHeaders(settings.headers), settings.serviceName);
+    } else if (settings.exporter === 'console') {
+      this.exporter = new ConsoleExporter();
+    } else {
+      if (settings.exporter !== 'none') {
+        logger.warn('Unknown OTEL_TRACES_EXPORTER, tracing disabled', { exporter: settings.exporter });
+      }
+      this.exporter = null;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * 当前上下文中的 span
+   */
+  activeSpan(): Span | undefined {
+    return this.storage?.getStore();
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent || this.activeSpan()?.context;
+    const span = new Span(name, options.kind ?? SpanKind.INTERNAL, parent, finished => {
+      if (finished.context.sampled) {
+        this.exporter?.export(finished);
+      }
+    });
+    if (options.attributes) {
+      span.setAttributes(options.attributes);
+    }
+    return span;
+  }
+
+  /**
+   * 在新 span 中执行，fn 中创建的 span 以它为父级；fn 抛出异常时记录到 span 上
+   */
+  async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    const run = () => fn(span);
+    try {
+      return await (this.storage ? this.storage.run(span, run) : run());
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * 导出缓冲中的 span（Workers 中请求结束前通过 waitUntil 调用）
+   */
+  flush(): Promise<void> {
+    return this.exporter?.flush() || Promise.resolve();
+  }
+}
+
+/**
+ * 为类的异步方法添加 span，span 名称为“类名.方法名”
+ * @param annotate 根据返回值补充 span 属性
+ */
+export function traceMethods<T extends object>(
+  prototype: T,
+  className: string,
+  methods: (keyof T & string)[],
+  annotate?: (span: Span, result: unknown) => void
+): void {
+  for (const method of methods) {
+    const original = prototype[method] as unknown as (...args: unknown[]) => Promise<unknown>;
+    (prototype as Record<string, unknown>)[method] = function (this: unknown, ...args: unknown[]) {
+      if (!tracer.enabled) {
+        return original.apply(this, args);
+      }
+      return tracer.withSpan(`${className}.${method}`, {}, async span => {
+        const result = await original.apply(this, args);
+        annotate?.(span, result);
+        return result;
+      });
+    };
+  }
+}
+
+/**
+ * 解析 traceparent 请求头，格式无效时返回 undefined
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+  const match = header?.trim().toLowerCase().match(/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/);
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) === 1
+  };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * 在控制台输出 span，适合本地调试
+ */
+class ConsoleExporter implements SpanExporter {
+  export(span: FinishedSpan): void {
+    logger.info(span.name, {
+      trace: span.context.traceId,
+      span: span.context.spanId,
+      parentSpan: span.parentSpanId,
+      durationMs: span.endTime - span.startTime,
+      status: span.status.code === SpanStatusCode.ERROR ? span.status.message || 'error' : undefined,
+      attributes: span.attributes
+    });
+  }
+
+  async flush(): Promise<void> {}
+}
+
+// 批量导出的条数和间隔
+const OTLP_BATCH_SIZE = 100;
+const OTLP_FLUSH_INTERVAL = 5000;
+
+/**
+ * 通过 OTLP/HTTP（JSON 编码）导出到收集器
+ */
+class OtlpHttpExporter implements SpanExporter {
+  private buffer: FinishedSpan[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string>,
+    private readonly serviceName: string
+  ) {}
+
+  export(span: FinishedSpan): void {
+    this.buffer.push(span);
+    if (this.buffer.length >= OTLP_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), OTLP_FLUSH_INTERVAL);
+      // 导出定时器不应阻止进程退出
+      (this.timer as any).unref?.();
+    }
+  }
+
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(this.toRequest(spans))
+      });
+      if (!response.ok) {
+        logger.warn('OTLP export failed', { endpoint: this.endpoint, status: response.status, statusText: response.statusText });
+      }
+    } catch (error) {
+      // 收集器不可用时丢弃这批数据，不影响请求
+      logger.warn('OTLP export failed', { endpoint: this.endpoint, error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  private toRequest(spans: FinishedSpan[]) {
+    return {
+      resourceSpans: [{
+        resource: { attributes: toKeyValues({ 'service.name': this.serviceName }) },
+        scopeSpans: [{
+          scope: { name: 'tempmailhub' },
+          spans: spans.map(span => ({
+            traceId: span.context.traceId,
+            spanId: span.context.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: span.kind,
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toKeyValues(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: toUnixNano(event.time),
+              attributes: toKeyValues(event.attributes)
+            })),
+            status: span.status
+          }))
+        }]
+      }]
+    };
+  }
+}
+
+function toKeyValues(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string' ? { stringValue: value }
+      : typeof value === 'boolean' ? { boolValue: value }
+      : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }));
+}
+
+function toUnixNano(ms: number): string {
+  return `${ms}000000`;
+}
+
+/**
+ * 解析 OTEL_EXPORTER_OTLP_HEADERS（key=value，逗号分隔，URL 编码），编码错误的条目跳过
+ */
+function parseHeaders(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  value.split(',').forEach((pair, position) => {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      return;
+    }
+    try {
+      headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim());
+    } catch {
+      // 头部值通常是认证信息，日志中只给出位置
+      logger.warn('Skipping malformed OTEL_EXPORTER_OTLP_HEADERS entry', { position });
+    }
+  });
+  return headers;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// 导出单例实例
+export const tracer = new Tracer(await createAsyncStorage<Span>());
+tracer.configure();